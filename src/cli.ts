@@ -0,0 +1,134 @@
+import fs from "fs";
+import path from "path";
+import { resolveFiles, runOutputs, OPTION_FIELDS, SupportFiles } from "./pipeline";
+import { readUploadOptions } from "./routes/schemas";
+import { displayTimetable, formatConflicts } from "./solver/index";
+
+// Resolve a folder of timetables without the server:
+//
+//   node dist/cli.js <folder> [--out <dir>] [--options <file.json>]
+//     [--constraints <file>] [--aliases <file>] [--qualifications <file>]
+//     [--<option> <value> ...]
+//
+// <option> is any field /api/upload accepts, e.g. --strategy greedy or
+// --formats docx,xlsx; --options reads them from a JSON object instead.
+// The resolved documents are written to --out (default "<folder>/resolved").
+// Exit status: 0 when no conflicts remain, 1 when some do, 2 on bad usage or
+// a failed run, so it can gate publishing a timetable.
+
+const TIMETABLE_EXTENSIONS = new Set([".csv", ".xlsx", ".xls", ".docx", ".pdf", ".txt"]);
+
+const USAGE = `Usage: node dist/cli.js <folder> [--out <dir>] [--options <file.json>]
+  [--constraints <file>] [--aliases <file>] [--qualifications <file>] [--<option> <value> ...]
+Options: ${OPTION_FIELDS.join(", ")}`;
+
+type CliArgs = {
+  folder: string;
+  out?: string;
+  options?: string;
+  constraints?: string;
+  aliases?: string;
+  qualifications?: string;
+  fields: Record<string, string>;
+};
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { folder: "", fields: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      if (args.folder) throw new UsageError(`Unexpected argument ${arg}`);
+      args.folder = arg;
+      continue;
+    }
+    const name = arg.slice(2);
+    const value = argv[++i];
+    if (value === undefined) throw new UsageError(`${arg} needs a value`);
+    if (name === "out" || name === "options" || name === "constraints" || name === "aliases" || name === "qualifications") {
+      args[name] = value;
+    }
+    else if (OPTION_FIELDS.includes(name)) args.fields[name] = value;
+    else throw new UsageError(`Unknown option ${arg}`);
+  }
+  if (!args.folder) throw new UsageError("No folder given");
+  return args;
+}
+
+// Files are handed to the parsers the way multer would hand over an upload
+function localFile(file: string): Express.Multer.File {
+  if (!fs.existsSync(file)) throw new UsageError(`${file} does not exist`);
+  return { originalname: path.basename(file), path: file } as Express.Multer.File;
+}
+
+function timetableFiles(folder: string, skip: string[]): Express.Multer.File[] {
+  if (!fs.existsSync(folder) || !fs.statSync(folder).isDirectory()) throw new UsageError(`${folder} is not a folder`);
+  const skipped = new Set(skip.map(f => path.resolve(f)));
+  return fs.readdirSync(folder)
+    .filter(name => !name.startsWith(".") && TIMETABLE_EXTENSIONS.has(path.extname(name).toLowerCase()))
+    .map(name => path.join(folder, name))
+    .filter(file => fs.statSync(file).isFile() && !skipped.has(path.resolve(file)))
+    .sort()
+    .map(localFile);
+}
+
+function readOptionsFile(file: string): Record<string, unknown> {
+  let options: unknown;
+  try {
+    options = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (err: any) {
+    throw new UsageError(`Could not read options from ${file}: ${err.message}`);
+  }
+  if (typeof options !== "object" || options === null || Array.isArray(options)) {
+    throw new UsageError(`${file} must hold a JSON object of upload options`);
+  }
+  return options as Record<string, unknown>;
+}
+
+export async function runCli(argv: string[]): Promise<number> {
+  const args = parseArgs(argv);
+  const body = { ...(args.options ? readOptionsFile(args.options) : {}), ...args.fields };
+  const support: SupportFiles = {
+    constraints: args.constraints ? localFile(args.constraints) : undefined,
+    aliases: args.aliases ? localFile(args.aliases) : undefined,
+    qualifications: args.qualifications ? localFile(args.qualifications) : undefined
+  };
+  const supportPaths = [args.constraints, args.aliases, args.qualifications, args.options];
+  const files = timetableFiles(args.folder, supportPaths.filter((f): f is string => !!f));
+  if (files.length === 0) throw new UsageError(`No timetable files in ${args.folder}`);
+
+  const run = await resolveFiles(files, body, support);
+  const { resolved } = run;
+  const { calendar } = readUploadOptions(body);
+  for (const [source, assignments] of resolved.separatedTimetables) {
+    console.log(`\n${source}`);
+    console.log(displayTimetable(assignments, calendar));
+  }
+  console.log(formatConflicts(resolved.conflicts));
+
+  const out = args.out || path.join(args.folder, "resolved");
+  for (const output of await runOutputs(run, body)) {
+    const target = path.join(out, output.path);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, output.content);
+  }
+  const moved = resolved.moves.filter(m => m.to).length;
+  console.log(`\n${files.length} file(s), ${resolved.assignments.length} lessons, ${moved} moved, ` +
+    `${resolved.conflicts.length} conflict(s) left; written to ${out}`);
+  return resolved.conflicts.length > 0 ? 1 : 0;
+}
+
+// runCli with failures reported on stderr; resolves to the exit status
+export async function main(argv: string[]): Promise<number> {
+  try {
+    return await runCli(argv);
+  } catch (err: any) {
+    console.error(err instanceof UsageError ? `${err.message}\n\n${USAGE}` : err?.message || err);
+    return 2;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => process.exit(code));
+}
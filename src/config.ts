@@ -0,0 +1,11 @@
+// Limits and lifetimes, set through the environment
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const config = {
+  maxFiles: envNumber("UNISYNC_MAX_FILES", 10), // timetable files per upload
+  maxFileSizeMb: envNumber("UNISYNC_MAX_FILE_MB", 50), // per uploaded file
+  jobTtlMinutes: envNumber("UNISYNC_JOB_TTL_MINUTES", 60) // finished job results are kept this long
+};
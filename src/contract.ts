@@ -0,0 +1,186 @@
+import type { FileDiagnostics, FileErrorCode, FilePreview, TimetableRow } from "./parsers/index";
+import type {
+  Assignment,
+  Conflict,
+  IdentityReport,
+  Move,
+  QualityReport,
+  RejectedRow,
+  SourceChanges,
+  Substitution
+} from "./solver/index";
+import type { SavedMapping } from "./storage/mappings";
+
+// The JSON the API answers with. Every JSON body from /api/upload and
+// /api/jobs, and every error body, carries apiVersion; /api/projects answers
+// (some of them plain arrays) rely on the X-Api-Version header every
+// response has. The version goes up whenever a field is removed or changes
+// meaning (added fields keep it).
+export const API_VERSION = 1;
+
+// A response body with the version in front
+export function versioned<T extends object>(body: T): T & { apiVersion: typeof API_VERSION } {
+  return { apiVersion: API_VERSION, ...body };
+}
+
+// What went wrong, for the client to branch on; "error" holds the message
+// to show:
+//   no_files: the upload had no timetable files (or a project no sources)
+//   invalid_options: option fields failed validation, listed under "fields"
+//   invalid_file: a constraints, aliases or qualifications file could not be used, see "files"
+//   no_readable_files: none of the timetable files could be read, see "files"
+//   file_too_large, too_many_files: the upload is over the configured limits
+//   invalid_calendar, invalid_date, invalid_columns, invalid_name, invalid_version,
+//   invalid_adjustment: a value outside the upload options was refused
+//   not_found, job_not_finished: the project, version, mapping or job is missing or not ready
+//   bad_request, internal_error: anything else
+export type ErrorCode =
+  | "no_files"
+  | "invalid_options"
+  | "invalid_file"
+  | "no_readable_files"
+  | "file_too_large"
+  | "too_many_files"
+  | "invalid_calendar"
+  | "invalid_date"
+  | "invalid_columns"
+  | "invalid_name"
+  | "invalid_version"
+  | "invalid_adjustment"
+  | "not_found"
+  | "job_not_finished"
+  | "bad_request"
+  | "internal_error";
+
+export const ERROR_CODES: ErrorCode[] = [
+  "no_files", "invalid_options", "invalid_file", "no_readable_files", "file_too_large", "too_many_files",
+  "invalid_calendar", "invalid_date", "invalid_columns", "invalid_name", "invalid_version", "invalid_adjustment",
+  "not_found", "job_not_finished", "bad_request", "internal_error"
+];
+
+// Why one option field was refused:
+//   invalid_json: the text is not JSON
+//   invalid_type: wrong kind of value, e.g. text where a number belongs
+//   invalid_value: not one of the allowed values
+//   out_of_range: a number or list outside its limits
+//   invalid_format: text in the wrong format, e.g. a date
+//   unknown_key: an object key the option does not have
+//   invalid_calendar: the calendar is well-formed but cannot be built
+export type FieldIssueCode =
+  | "invalid_json"
+  | "invalid_type"
+  | "invalid_value"
+  | "out_of_range"
+  | "invalid_format"
+  | "unknown_key"
+  | "invalid_calendar";
+
+export type FieldIssue = {
+  field: string; // the multipart field, e.g. "calendar"
+  path: string; // where in its value, e.g. "calendar.days.2.periods" (the field itself for plain values)
+  code: FieldIssueCode;
+  message: string;
+};
+
+// Why one uploaded file was refused; invalid_content means a support file
+// of a known type whose rows or keys are wrong
+export type FileIssueCode = FileErrorCode | "invalid_content";
+
+export type FileIssue = {
+  field: "files" | "constraints" | "aliases" | "qualifications";
+  file: string;
+  sheet?: string;
+  code: FileIssueCode;
+  message: string;
+};
+
+// An error the API answers with, thrown wherever a request is refused. Its
+// status, code and issues become the error response.
+export class ApiError extends Error {
+  readonly fields?: FieldIssue[];
+  readonly files?: FileIssue[];
+
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode,
+    message: string,
+    extras: { fields?: FieldIssue[]; files?: FileIssue[] } = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    if (extras.fields) this.fields = extras.fields;
+    if (extras.files) this.files = extras.files;
+  }
+}
+
+export type ErrorResponse = {
+  apiVersion: typeof API_VERSION;
+  error: string;
+  code: ErrorCode;
+  status: number;
+  fields?: FieldIssue[];
+  files?: FileIssue[];
+};
+
+// Per-file counts next to the full diagnostics
+export type FileStats = {
+  file: string;
+  sheet?: string;
+  parsed: boolean;
+  error?: string;
+  errorCode?: FileErrorCode;
+  parsedRows: number;
+  scheduledRows: number;
+  movedRows: number;
+  unresolvedRows: number;
+  conflicts: number;
+};
+
+// POST /api/upload/analyze, GET /api/jobs/:id/result and stored project versions
+export type ResolutionResponse = {
+  apiVersion: typeof API_VERSION;
+  rows: TimetableRow[];
+  assignments: Assignment[];
+  separatedTimetables: Record<string, Assignment[]>;
+  moves: Move[];
+  conflicts: Conflict[];
+  conflictReport: string;
+  rejected: RejectedRow[];
+  changes: SourceChanges[];
+  identities: IdentityReport;
+  quality: QualityReport;
+  substitutions: Substitution[];
+  files: FileStats[];
+  diagnostics: FileDiagnostics[];
+};
+
+// POST /api/upload/preview
+export type PreviewResponse = {
+  apiVersion: typeof API_VERSION;
+  files: FilePreview[];
+  savedMapping: SavedMapping | null;
+};
+
+const STATUS_CODES: Record<number, ErrorCode> = {
+  400: "bad_request",
+  404: "not_found",
+  409: "job_not_finished",
+  413: "file_too_large"
+};
+
+// Any thrown error in the shape above. ApiErrors name their code; others,
+// such as body parser errors, fall back to one for their status.
+export function errorResponse(err: any): ErrorResponse {
+  const status = err?.status || 500;
+  const code: ErrorCode = status >= 500
+    ? "internal_error"
+    : ERROR_CODES.includes(err?.code) ? err.code : STATUS_CODES[status] || "bad_request";
+  return {
+    apiVersion: API_VERSION,
+    error: err?.message || "Internal Server Error",
+    code,
+    status,
+    ...(err?.fields ? { fields: err.fields as FieldIssue[] } : {}),
+    ...(err?.files ? { files: err.files as FileIssue[] } : {})
+  };
+}
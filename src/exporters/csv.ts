@@ -0,0 +1,23 @@
+import { Assignment, effectiveRoom, effectiveTeacher } from "../solver/index";
+import { SchoolCalendar, DEFAULT_CALENDAR, compareSlots, splitSlot, formatPeriodRange } from "../solver/calendar";
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Resolved timetable in the same column layout parseUploadedFiles reads, so
+// the output can be uploaded again as-is
+export function assignmentsToCsv(assignments: Assignment[], calendar: SchoolCalendar = DEFAULT_CALENDAR): string {
+  const header = ["Day", "Period", "Subject", "Teacher", "Group", "Room", "Locked", "Weeks", "Start Date", "End Date"];
+  const ordered = [...assignments].sort((a, b) => compareSlots(a.assignedSlot, b.assignedSlot, calendar));
+  const lines = ordered.map(a => {
+    const [day] = splitSlot(a.assignedSlot);
+    return [
+      day, formatPeriodRange(a.assignedSlots), a.subject || "", effectiveTeacher(a), a.group || "", effectiveRoom(a),
+      a.locked ? "yes" : "", a.weeks || "", a.startDate || "", a.endDate || ""
+    ]
+      .map(csvField)
+      .join(",");
+  });
+  return [header.join(","), ...lines].join("\r\n") + "\r\n";
+}
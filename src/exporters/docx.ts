@@ -0,0 +1,204 @@
+import {
+  Document,
+  Packer,
+  Paragraph,
+  Table,
+  TableRow,
+  TableCell,
+  TextRun,
+  PageOrientation,
+  ShadingType,
+  WidthType
+} from "docx";
+import {
+  Assignment,
+  SourceChanges,
+  LessonChange,
+  getTimetableView,
+  isMoved,
+  roomText,
+  changeNote,
+  teacherText,
+  weekLabel
+} from "../solver/index";
+import { SchoolCalendar, DEFAULT_CALENDAR, maxPeriods, periodLabel } from "../solver/calendar";
+
+const MOVED_FILL = "FFF2CC";
+const UNRESOLVED_FILL = "F8CBAD";
+const BLOCKED_FILL = "D9D9D9";
+const HEADER_FILL = "DDEBF7";
+
+function shading(fill: string) {
+  return { fill, type: ShadingType.CLEAR, color: "auto" };
+}
+
+function headerCell(text: string): TableCell {
+  return new TableCell({
+    shading: shading(HEADER_FILL),
+    children: [new Paragraph({ children: [new TextRun({ text, bold: true })] })]
+  });
+}
+
+// One paragraph block per lesson in a cell; moved lessons say where they came from
+function lessonParagraphs(a: Assignment, calendar: SchoolCalendar): Paragraph[] {
+  const lines = [
+    new Paragraph({ children: [new TextRun({ text: a.subject || "N/A", bold: true })] }),
+    new Paragraph(teacherText(a)),
+    new Paragraph(a.group || ""),
+    new Paragraph(roomText(a))
+  ];
+  const weeks = weekLabel(a);
+  if (weeks) lines.push(new Paragraph({ children: [new TextRun({ text: weeks, bold: true })] }));
+  if (isMoved(a, calendar)) {
+    lines.push(new Paragraph({ children: [new TextRun({ text: changeNote(a, calendar), italics: true })] }));
+  }
+  return lines;
+}
+
+// Day x period grid, the same layout as displayTimetable
+function gridTable(assignments: Assignment[], calendar: SchoolCalendar): Table {
+  const view = getTimetableView(assignments);
+  const periodCount = maxPeriods(calendar);
+
+  // Column headings come from the first day that has each period
+  const headings = Array.from({ length: periodCount }, (_, p) => {
+    const period = calendar.days.find(d => d.periods[p])?.periods[p];
+    return period ? periodLabel(period) : `P${p + 1}`;
+  });
+
+  const rows = [
+    new TableRow({ tableHeader: true, children: [headerCell("Day"), ...headings.map(headerCell)] }),
+    ...calendar.days.map(day => new TableRow({
+      children: [
+        headerCell(day.id),
+        ...Array.from({ length: periodCount }, (_, p) => {
+          const period = day.periods[p];
+          if (!period) return new TableCell({ shading: shading(BLOCKED_FILL), children: [new Paragraph("")] });
+
+          const entries = view.get(day.id)?.get(period.id) || [];
+          const blocked = calendar.blocked.has(`${day.id}-${period.id}`);
+          const moved = entries.some(a => isMoved(a, calendar));
+          const children = entries.length > 0
+            ? entries.flatMap((a, i) => [
+              ...(i > 0 ? [new Paragraph("—")] : []),
+              ...lessonParagraphs(a, calendar)
+            ])
+            : [new Paragraph(blocked ? "Blocked" : "")];
+
+          return new TableCell({
+            shading: moved ? shading(MOVED_FILL) : blocked ? shading(BLOCKED_FILL) : undefined,
+            children
+          });
+        })
+      ]
+    }))
+  ];
+
+  return new Table({ rows, width: { size: 100, type: WidthType.PERCENTAGE } });
+}
+
+export async function assignmentsToDocx(
+  assignments: Assignment[],
+  filename: string,
+  calendar: SchoolCalendar = DEFAULT_CALENDAR
+): Promise<Buffer> {
+  const movedCount = assignments.filter(a => isMoved(a, calendar)).length;
+
+  const doc = new Document({
+    sections: [
+      {
+        properties: {
+          page: { size: { orientation: PageOrientation.LANDSCAPE } }
+        },
+        children: [
+          new Paragraph({
+            children: [new TextRun({ text: filename, bold: true, size: 24 })]
+          }),
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: movedCount > 0
+                  ? `${movedCount} lesson(s) moved by the resolver are highlighted.`
+                  : "No lessons were moved.",
+                italics: true
+              })
+            ]
+          }),
+          new Paragraph({ text: "" }), // Empty paragraph for spacing
+          gridTable(assignments, calendar)
+        ],
+      },
+    ],
+  });
+
+  return await Packer.toBuffer(doc);
+}
+
+function textCell(text: string, fill?: string): TableCell {
+  return new TableCell({ shading: fill ? shading(fill) : undefined, children: [new Paragraph(text)] });
+}
+
+// "Physics (Jones, G2) from physics.csv at Mon-P1"
+function clashText(change: LessonChange): string {
+  const other = change.clashWith;
+  if (!other) return change.cause ? `${change.cause.type} ${change.cause.resource}` : "";
+  const who = [other.teacher, other.group].filter(Boolean).join(", ");
+  return `${change.cause?.type || "clash"} ${change.cause?.resource || ""}: ` +
+    `${other.subject || "N/A"}${who ? ` (${who})` : ""} from ${other.source} at ${other.slot}`;
+}
+
+function changeRow(change: LessonChange): TableRow {
+  const fill = change.kind === 'unresolved' ? UNRESOLVED_FILL : MOVED_FILL;
+  const to = change.to === null ? "Not moved" : change.to === change.from ? "Same slot" : change.to;
+  const room = change.fromRoom !== change.toRoom ? `${change.fromRoom || "none"} → ${change.toRoom || "none"}` : change.toRoom;
+  return new TableRow({
+    children: [
+      textCell(change.subject || "N/A", fill),
+      textCell(change.substitute ? `${change.substitute} (covering for ${change.teacher})` : change.teacher),
+      textCell(change.group),
+      textCell(change.from),
+      textCell(to),
+      textCell(room),
+      textCell(change.manual ? "Moved by hand" : clashText(change))
+    ]
+  });
+}
+
+// Summary of what changed in one department's timetable: every moved,
+// re-roomed or unresolved lesson and the lesson it clashed with
+export async function changesToDocx(report: SourceChanges): Promise<Buffer> {
+  const summary = report.changes.length === 0
+    ? `No changes: all ${report.lessons} lesson(s) kept their slot and room.`
+    : `${report.moved} of ${report.lessons} lesson(s) moved, ${report.roomChanges} room change(s), ` +
+      `${report.substitutions} substitute teacher(s), ${report.unresolved} clash(es) left unresolved.`;
+  const table = new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        children: ["Subject", "Teacher", "Group", "From", "To", "Room", "Caused by"].map(headerCell)
+      }),
+      ...report.changes.map(changeRow)
+    ]
+  });
+
+  const doc = new Document({
+    sections: [
+      {
+        properties: {
+          page: { size: { orientation: PageOrientation.LANDSCAPE } }
+        },
+        children: [
+          new Paragraph({
+            children: [new TextRun({ text: `Changes to ${report.source}`, bold: true, size: 24 })]
+          }),
+          new Paragraph({ children: [new TextRun({ text: summary, italics: true })] }),
+          new Paragraph({ text: "" }),
+          ...(report.changes.length > 0 ? [table] : [])
+        ]
+      }
+    ]
+  });
+
+  return await Packer.toBuffer(doc);
+}
@@ -0,0 +1,88 @@
+import { Assignment, changeNote, getTimetableView, isMoved, roomText, teacherText, weekLabel } from "../solver/index";
+import { SchoolCalendar, DEFAULT_CALENDAR, maxPeriods, periodLabel } from "../solver/calendar";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const STYLE = `
+  body { font-family: Arial, sans-serif; margin: 24px; }
+  h1 { font-size: 18px; }
+  table { border-collapse: collapse; width: 100%; table-layout: fixed; }
+  th, td { border: 1px solid #555; padding: 4px; vertical-align: top; font-size: 11px; }
+  th { background: #ddebf7; }
+  td.moved { background: #fff2cc; }
+  td.blocked { background: #d9d9d9; }
+  .lesson + .lesson { border-top: 1px dashed #999; margin-top: 4px; padding-top: 4px; }
+  .subject { font-weight: bold; }
+  .note { font-style: italic; }
+  .weeks { font-weight: bold; }
+  @page { size: A4 landscape; margin: 10mm; }
+  @media print { body { margin: 0; } }
+`;
+
+// Printable day x period grid; open in a browser and print to get a PDF
+export function assignmentsToHtml(
+  assignments: Assignment[],
+  title: string,
+  calendar: SchoolCalendar = DEFAULT_CALENDAR
+): string {
+  const view = getTimetableView(assignments);
+  const periodCount = maxPeriods(calendar);
+
+  const headings = Array.from({ length: periodCount }, (_, p) => {
+    const period = calendar.days.find(d => d.periods[p])?.periods[p];
+    return `<th>${escapeHtml(period ? periodLabel(period) : `P${p + 1}`)}</th>`;
+  }).join("");
+
+  const body = calendar.days.map(day => {
+    const cells = Array.from({ length: periodCount }, (_, p) => {
+      const period = day.periods[p];
+      if (!period) return `<td class="blocked"></td>`;
+
+      const entries = view.get(day.id)?.get(period.id) || [];
+      const blocked = calendar.blocked.has(`${day.id}-${period.id}`);
+      const moved = entries.some(a => isMoved(a, calendar));
+      const content = entries.length > 0
+        ? entries.map(a => {
+          const note = isMoved(a, calendar) ? changeNote(a, calendar) : "";
+          const weeks = weekLabel(a);
+          return `<div class="lesson">` +
+            `<div class="subject">${escapeHtml(a.subject || "N/A")}</div>` +
+            `<div>${escapeHtml(teacherText(a))}</div>` +
+            `<div>${escapeHtml(a.group || "")}</div>` +
+            `<div>${escapeHtml(roomText(a))}</div>` +
+            (weeks ? `<div class="weeks">${escapeHtml(weeks)}</div>` : "") +
+            (note ? `<div class="note">${escapeHtml(note)}</div>` : "") +
+            `</div>`;
+        }).join("")
+        : blocked ? "Blocked" : "";
+      const cls = moved ? "moved" : blocked ? "blocked" : "";
+      return `<td${cls ? ` class="${cls}"` : ""}>${content}</td>`;
+    }).join("");
+    return `<tr><th>${escapeHtml(day.id)}</th>${cells}</tr>`;
+  }).join("\n");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<table>
+<thead><tr><th>Day</th>${headings}</tr></thead>
+<tbody>
+${body}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
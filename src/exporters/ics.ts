@@ -0,0 +1,163 @@
+import { createHash } from "crypto";
+import { Assignment, effectiveRoom, slotFromRow, teacherText } from "../solver/index";
+import { sourceKey } from "../parsers/index";
+import { SchoolCalendar, DEFAULT_CALENDAR, splitSlot, periodTimes } from "../solver/calendar";
+import { lessonWeeks, weekLabel } from "../solver/weeks";
+import { ApiError } from "../contract";
+
+export type IcsOptions = {
+  termStart?: string; // YYYY-MM-DD, first week of the recurring events (default: next Monday)
+  termEnd?: string; // YYYY-MM-DD, last day events repeat on (default: open-ended)
+};
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+function parseDate(value: string, field: string): Date {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const [year, month, day] = match ? [+match[1], +match[2], +match[3]] : [NaN, NaN, NaN];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Date.UTC rolls days over, so 2026-02-30 would otherwise become March 2
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new ApiError(400, "invalid_date", `${field} must be a date in YYYY-MM-DD format`);
+  }
+  return date;
+}
+
+function nextMonday(): Date {
+  const now = new Date();
+  const today = new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+  today.setUTCDate(today.getUTCDate() + ((8 - today.getUTCDay()) % 7 || 7));
+  return today;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function formatDate(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const out = new Date(date);
+  out.setUTCDate(out.getUTCDate() + days);
+  return out;
+}
+
+// YYYY-MM-DD, comparable with lesson date ranges
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatTime(minutes: number): string {
+  return `${pad(Math.floor(minutes / 60) % 24)}${pad(minutes % 60)}00`;
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 lines are folded at 75 characters
+function fold(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    parts.push(line.slice(i, i + (i === 0 ? 75 : 74)));
+  }
+  return parts.join("\r\n ");
+}
+
+// Event UIDs stay the same from one export to the next, so re-importing a
+// calendar updates its events instead of duplicating them: they hash the
+// calendar's owner with the lesson's subject, group, teacher and uploaded
+// slot, counting repeats of the same lesson within the calendar
+function eventUid(owner: string, a: Assignment, calendar: SchoolCalendar, seen: Map<string, number>): string {
+  const lesson = [owner, a.subject, a.group, a.teacher, slotFromRow(a, calendar) || `${a.day}-${a.period}`]
+    .map(part => (part || "").trim())
+    .join("\n");
+  const hash = createHash("sha256").update(lesson).digest("hex").slice(0, 32);
+  const count = (seen.get(hash) || 0) + 1;
+  seen.set(hash, count);
+  return `${hash}${count > 1 ? `-${count}` : ""}@unisync`;
+}
+
+// Weekly recurring events, one per lesson. Periods without clock times in the
+// calendar default to hourly periods starting at 08:00 (see periodTimes).
+// Teaching week 1 is the week of termStart: lessons in some weeks only are
+// listed date by date, and lesson date ranges narrow the recurrence.
+export function assignmentsToIcs(
+  assignments: Assignment[],
+  name: string,
+  calendar: SchoolCalendar = DEFAULT_CALENDAR,
+  options: IcsOptions = {}
+): string {
+  const termStart = options.termStart ? parseDate(options.termStart, "termStart") : nextMonday();
+  const termEnd = options.termEnd ? isoDay(parseDate(options.termEnd, "termEnd")) : undefined;
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//UniSync//Timetable//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeText(name)}`
+  ];
+
+  const uids = new Map<string, number>();
+  assignments.forEach(a => {
+    const [day, period] = splitSlot(a.assignedSlot);
+    const dayIndex = calendar.days.findIndex(d => d.id === day);
+    if (dayIndex === -1) return;
+    const calendarDay = calendar.days[dayIndex];
+    const periodIndex = calendarDay.periods.findIndex(p => p.id === period);
+    if (periodIndex === -1) return;
+    // Lessons over several periods end with their last period
+    const lastIndex = Math.max(periodIndex, periodIndex + a.assignedSlots.length - 1);
+
+    const start = periodTimes(calendarDay, periodIndex).start;
+    const end = periodTimes(calendarDay, Math.min(lastIndex, calendarDay.periods.length - 1)).end;
+
+    const weekday = WEEKDAYS[day] ?? (termStart.getUTCDay() + dayIndex) % 7;
+    const weekOne = addDays(termStart, (weekday - termStart.getUTCDay() + 7) % 7);
+    const { weeks, from, to } = lessonWeeks(a);
+    const last = [termEnd, to].filter((d): d is string => !!d).sort()[0];
+    const inRange = (date: Date) => (!from || isoDay(date) >= from) && (!last || isoDay(date) <= last);
+    // Every week from the first one in range, or the listed weeks in range
+    let dates: Date[];
+    if (weeks) {
+      dates = [...weeks].sort((x, y) => x - y).map(w => addDays(weekOne, 7 * (w - 1))).filter(inRange);
+    } else {
+      let first = weekOne;
+      while (from && isoDay(first) < from) first = addDays(first, 7);
+      dates = !last || isoDay(first) <= last ? [first] : [];
+    }
+    if (dates.length === 0) return;
+    const first = dates[0];
+    const recurrence = weeks
+      ? dates.length > 1 ? [`RDATE:${dates.slice(1).map(d => `${formatDate(d)}T${formatTime(start)}`).join(",")}`] : []
+      : [`RRULE:FREQ=WEEKLY${last ? `;UNTIL=${last.replace(/-/g, "")}T235959` : ""}`];
+
+    const room = effectiveRoom(a);
+    const description = [
+      a.teacher ? `Teacher: ${teacherText(a)}` : "",
+      a.group ? `Group: ${a.group}` : "",
+      weekLabel(a),
+      a.sourceFile ? `Source: ${sourceKey(a)}` : ""
+    ].filter(Boolean).join("\n");
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${eventUid(name, a, calendar, uids)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatDate(first)}T${formatTime(start)}`,
+      `DTEND:${formatDate(first)}T${formatTime(end)}`,
+      ...recurrence,
+      `SUMMARY:${escapeText(a.subject || "Lesson")}`,
+      ...(room ? [`LOCATION:${escapeText(room)}`] : []),
+      ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+      "END:VEVENT"
+    );
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,123 @@
+import { Assignment, GroupHierarchy, MergeResult, ViewKind, changeReport, partitionAssignments } from "../solver/index";
+import { SchoolCalendar, DEFAULT_CALENDAR } from "../solver/calendar";
+import { assignmentsToDocx, changesToDocx } from "./docx";
+import { timetablesToXlsx } from "./xlsx";
+import { assignmentsToCsv } from "./csv";
+import { assignmentsToIcs, IcsOptions } from "./ics";
+import { assignmentsToHtml } from "./html";
+
+export { assignmentsToDocx, changesToDocx } from "./docx";
+export { timetablesToXlsx } from "./xlsx";
+export { assignmentsToCsv } from "./csv";
+export { assignmentsToIcs } from "./ics";
+export type { IcsOptions } from "./ics";
+export { assignmentsToHtml } from "./html";
+
+export type ExportFormat = 'docx' | 'xlsx' | 'csv' | 'ics' | 'html';
+export type View = 'source' | ViewKind;
+
+export const EXPORT_FORMATS: ExportFormat[] = ['docx', 'xlsx', 'csv', 'ics', 'html'];
+export const VIEWS: View[] = ['source', 'teacher', 'room', 'group'];
+
+export type RenderOptions = {
+  calendar?: SchoolCalendar;
+  groupHierarchy?: GroupHierarchy;
+  formats?: ExportFormat[]; // default ["docx"]
+  views?: View[]; // grids to draw for docx/html, default ["source"]
+  ics?: IcsOptions;
+};
+
+// A file to place in the download zip or output folder
+export type OutputFile = {
+  path: string;
+  content: Buffer | string;
+};
+
+const VIEW_FOLDERS: Record<ViewKind, string> = { teacher: "teachers", room: "rooms", group: "groups" };
+
+export function safeFileName(name: string): string {
+  return name.replace(/[^\w.-]+/g, "_") || "unnamed";
+}
+
+function baseName(sourceFile: string): string {
+  return sourceFile.replace(/\.[^/.]+$/, "");
+}
+
+// File stem for one source timetable, with the sheet name for workbook sheets
+function sourceStem(source: string, assignments: Assignment[]): string {
+  const first = assignments[0];
+  if (!first?.sourceSheet) return baseName(source);
+  return `${baseName(first.sourceFile || "unknown")}_${safeFileName(first.sourceSheet)}`;
+}
+
+// Every timetable selected by views, as [title, file stem, assignments]
+function viewTimetables(result: MergeResult, views: View[], groupHierarchy?: GroupHierarchy) {
+  const out: { title: string; stem: string; assignments: MergeResult['assignments'] }[] = [];
+  if (views.includes('source')) {
+    for (const [source, assignments] of result.separatedTimetables) {
+      out.push({ title: source, stem: `resolved_${sourceStem(source, assignments)}`, assignments });
+    }
+  }
+  for (const view of views) {
+    if (view === 'source') continue;
+    for (const [name, assignments] of partitionAssignments(result.assignments, view, groupHierarchy)) {
+      out.push({ title: `${view}: ${name}`, stem: `${VIEW_FOLDERS[view]}/${safeFileName(name)}`, assignments });
+    }
+  }
+  return out;
+}
+
+// Render a resolution in every requested format
+export async function renderOutputs(result: MergeResult, options: RenderOptions = {}): Promise<OutputFile[]> {
+  const calendar = options.calendar || DEFAULT_CALENDAR;
+  const formats: ExportFormat[] = options.formats && options.formats.length > 0 ? options.formats : ['docx'];
+  const views: View[] = options.views && options.views.length > 0 ? options.views : ['source'];
+  const files: OutputFile[] = [];
+
+  if (formats.includes('docx')) {
+    for (const { title, stem, assignments } of viewTimetables(result, views, options.groupHierarchy)) {
+      files.push({ path: `${stem}.docx`, content: await assignmentsToDocx(assignments, title, calendar) });
+    }
+  }
+
+  if (formats.includes('html')) {
+    for (const { title, stem, assignments } of viewTimetables(result, views, options.groupHierarchy)) {
+      files.push({ path: `html/${stem}.html`, content: assignmentsToHtml(assignments, title, calendar) });
+    }
+  }
+
+  if (formats.includes('xlsx')) {
+    files.push({
+      path: "resolved_timetables.xlsx",
+      content: await timetablesToXlsx(result.separatedTimetables, result.conflicts, calendar)
+    });
+  }
+
+  if (formats.includes('csv')) {
+    for (const [source, assignments] of result.separatedTimetables) {
+      files.push({ path: `csv/resolved_${sourceStem(source, assignments)}.csv`, content: assignmentsToCsv(assignments, calendar) });
+    }
+  }
+
+  if (formats.includes('ics')) {
+    for (const view of ['teacher', 'group'] as ViewKind[]) {
+      for (const [name, assignments] of partitionAssignments(result.assignments, view, options.groupHierarchy)) {
+        files.push({
+          path: `calendars/${VIEW_FOLDERS[view]}/${safeFileName(name)}.ics`,
+          content: assignmentsToIcs(assignments, `${view}: ${name}`, calendar, options.ics)
+        });
+      }
+    }
+  }
+
+  // Each department gets a summary of what changed in its timetable,
+  // whatever the formats
+  const changes = changeReport(result);
+  files.push({ path: "changes/changes.json", content: JSON.stringify(changes, null, 2) });
+  for (const report of changes) {
+    const assignments = result.separatedTimetables.get(report.source) || [];
+    files.push({ path: `changes/changes_${sourceStem(report.source, assignments)}.docx`, content: await changesToDocx(report) });
+  }
+
+  return files;
+}
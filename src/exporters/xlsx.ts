@@ -0,0 +1,88 @@
+import ExcelJS from "exceljs";
+import { Assignment, Conflict, isMoved, roomText, slotFromRow, teacherText, weekLabel } from "../solver/index";
+import { sourceKey } from "../parsers/index";
+import { SchoolCalendar, DEFAULT_CALENDAR, compareSlots, splitSlot, formatPeriodRange } from "../solver/calendar";
+
+const MOVED_FILL = "FFFFF2CC";
+
+// Excel sheet names: max 31 characters, no []:*?/\ and unique per workbook
+function sheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[[\]:*?/\\]/g, "_").slice(0, 31) || "Sheet";
+  let candidate = base;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+// One sheet per source timetable plus a conflicts sheet
+export async function timetablesToXlsx(
+  separatedTimetables: Map<string, Assignment[]>,
+  conflicts: Conflict[],
+  calendar: SchoolCalendar = DEFAULT_CALENDAR
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const used = new Set<string>();
+
+  for (const [source, assignments] of separatedTimetables) {
+    const sheet = workbook.addWorksheet(sheetName(source, used));
+    sheet.columns = [
+      { header: "Day", key: "day", width: 10 },
+      { header: "Period", key: "period", width: 10 },
+      { header: "Subject", key: "subject", width: 28 },
+      { header: "Teacher", key: "teacher", width: 24 },
+      { header: "Group", key: "group", width: 16 },
+      { header: "Room", key: "room", width: 20 },
+      { header: "Weeks", key: "weeks", width: 20 },
+      { header: "Original Slot", key: "original", width: 14 },
+      { header: "Moved", key: "moved", width: 8 }
+    ];
+    sheet.getRow(1).font = { bold: true };
+
+    const ordered = [...assignments].sort((a, b) => compareSlots(a.assignedSlot, b.assignedSlot, calendar));
+    for (const a of ordered) {
+      const [day] = splitSlot(a.assignedSlot);
+      const period = formatPeriodRange(a.assignedSlots);
+      const moved = isMoved(a, calendar);
+      const row = sheet.addRow({
+        day,
+        period,
+        subject: a.subject || "",
+        teacher: teacherText(a),
+        group: a.group || "",
+        room: roomText(a),
+        weeks: weekLabel(a),
+        original: slotFromRow(a, calendar),
+        moved: moved ? "Yes" : ""
+      });
+      if (moved) {
+        row.fill = { type: "pattern", pattern: "solid", fgColor: { argb: MOVED_FILL } };
+      }
+    }
+  }
+
+  const conflictSheet = workbook.addWorksheet(sheetName("Conflicts", used));
+  conflictSheet.columns = [
+    { header: "Type", key: "type", width: 12 },
+    { header: "Slot", key: "slot", width: 12 },
+    { header: "Resource", key: "resource", width: 24 },
+    { header: "Detail", key: "detail", width: 40 },
+    { header: "Entries", key: "entries", width: 80 }
+  ];
+  conflictSheet.getRow(1).font = { bold: true };
+  for (const c of conflicts) {
+    conflictSheet.addRow({
+      type: c.hard ? `${c.type} (hard)` : c.type,
+      slot: c.slot,
+      resource: c.resource,
+      detail: c.detail || "",
+      entries: c.conflictingEntries
+        .map(e => `${e.subject || "Unknown Subject"} [${sourceKey(e)}]`)
+        .join("; ")
+    });
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -1,8 +1,12 @@
 import express from "express";
+// Patches the router, so it has to load before any route is defined
+import "express-async-errors";
 import cors from "cors";
 import routes from "./routes";
-import "express-async-errors";
 import bodyParser from "body-parser";
+import { MulterError } from "multer";
+import { config } from "./config";
+import { API_VERSION, ApiError, ErrorCode, errorResponse } from "./contract";
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -11,12 +15,34 @@ app.use(cors({ origin: ["https://useunisync.vercel.app"], credentials: true }));
 app.use(bodyParser.json());
 app.use(bodyParser.urlencoded({ extended: true }));
 
+app.use("/api", (_req, res, next) => {
+  res.set("X-Api-Version", String(API_VERSION));
+  next();
+});
 app.use("/api", routes);
 
+const MULTER_CODES: Record<string, ErrorCode> = {
+  LIMIT_FILE_SIZE: "file_too_large",
+  LIMIT_FILE_COUNT: "too_many_files",
+  LIMIT_UNEXPECTED_FILE: "too_many_files"
+};
+
+// Uploads over the configured limits. Multer's own codes give way to the API's.
+function limitError(err: MulterError): ApiError {
+  let message = err.message;
+  if (err.code === "LIMIT_FILE_SIZE") message = `Each file must be at most ${config.maxFileSizeMb} MB`;
+  if (err.code === "LIMIT_UNEXPECTED_FILE") {
+    message = `Too many files in "${err.field}": send at most ${config.maxFiles} "files" ` +
+      `and one file each for "constraints", "aliases" and "qualifications"`;
+  }
+  return new ApiError(err.code === "LIMIT_FILE_SIZE" ? 413 : 400, MULTER_CODES[err.code] || "bad_request", message);
+}
+
 // error handler
 app.use((err: any, _req: express.Request, res: express.Response, _next: any) => {
   console.error(err);
-  res.status(err.status || 500).json({ error: err.message || "Internal Server Error" });
+  const body = errorResponse(err instanceof MulterError ? limitError(err) : err);
+  res.status(body.status).json(body);
 });
 
 app.listen(PORT, () => {
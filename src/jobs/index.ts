@@ -0,0 +1,190 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { dataPath, readJsonFile, writeJsonFile } from "../storage/index";
+import { config } from "../config";
+import { ApiError, ErrorCode, FieldIssue, FileIssue, errorResponse } from "../contract";
+
+export type JobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+// Where a running job has got to, e.g. { stage: "parsing", file: 2, files: 5, name: "cs.xlsx" }
+export type JobProgress = {
+  stage: "queued" | "parsing" | "solving" | "rendering" | "done";
+  file?: number; // 1-based, while parsing
+  files?: number;
+  name?: string;
+};
+
+export type Job = {
+  id: string;
+  status: JobStatus;
+  progress: JobProgress;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  expiresAt?: string; // results are removed after this
+  error?: string;
+  errorCode?: ErrorCode;
+  fields?: FieldIssue[]; // for invalid_options
+  files?: FileIssue[]; // for invalid_file and no_readable_files
+};
+
+// Handed to a running task: report progress, which also stops the task
+// with an error once the job is cancelled. signal is aborted on cancel, for
+// tasks that can stop without waiting for their next report.
+export type JobControl = {
+  report(progress: JobProgress): void;
+  signal: AbortSignal;
+};
+
+export type JobOutput = { result: unknown; zip: Buffer };
+type JobTask = (control: JobControl) => Promise<JobOutput>;
+
+// Jobs run one at a time, in the order they were submitted; only their
+// results are written to disk, under <data>/jobs/<id>
+const jobs = new Map<string, Job>();
+const tasks = new Map<string, { task: JobTask; cleanup: () => void }>();
+const queue: string[] = [];
+const cancellers = new Map<string, AbortController>();
+let running = false;
+
+class JobCancelled extends Error {}
+
+// Read through a function: the status changes while a task is awaited
+function isCancelled(job: Job): boolean {
+  return job.status === "cancelled";
+}
+
+function notFound(id: string): ApiError {
+  return new ApiError(404, "not_found", `Job ${id} not found`);
+}
+
+function jobDir(id: string): string {
+  return dataPath("jobs", id);
+}
+
+function update(job: Job, changes: Partial<Job>) {
+  Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+}
+
+function finish(job: Job, status: JobStatus, changes: Partial<Job> = {}) {
+  const now = Date.now();
+  update(job, {
+    ...changes,
+    status,
+    finishedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + config.jobTtlMinutes * 60_000).toISOString()
+  });
+}
+
+async function runNext() {
+  if (running) return;
+  const id = queue.shift();
+  if (!id) return;
+  const job = jobs.get(id);
+  const entry = tasks.get(id);
+  tasks.delete(id);
+  if (!job || !entry || job.status !== "queued") {
+    entry?.cleanup();
+    return runNext();
+  }
+
+  running = true;
+  update(job, { status: "running" });
+  const canceller = new AbortController();
+  cancellers.set(id, canceller);
+  const control: JobControl = {
+    report(progress) {
+      if (isCancelled(job)) throw new JobCancelled();
+      update(job, { progress });
+    },
+    signal: canceller.signal
+  };
+  try {
+    const { result, zip } = await entry.task(control);
+    if (!isCancelled(job)) {
+      writeJsonFile(path.join(jobDir(id), "result.json"), result);
+      fs.writeFileSync(path.join(jobDir(id), "resolved_timetables.zip"), zip);
+      finish(job, "done", { progress: { stage: "done" } });
+    }
+  } catch (err: any) {
+    if (!isCancelled(job) && !(err instanceof JobCancelled)) {
+      console.error(`Job ${id} failed`, err);
+      const { error, code, fields, files } = errorResponse(err);
+      finish(job, "failed", { error, errorCode: code, fields, files });
+    }
+  } finally {
+    cancellers.delete(id);
+    entry.cleanup();
+    running = false;
+    // Let the request that queued the job answer before the next one starts
+    setImmediate(runNext);
+  }
+}
+
+// Queue a task; cleanup runs once it has finished, failed or been cancelled
+export function submitJob(task: JobTask, cleanup: () => void = () => {}): Job {
+  const now = new Date().toISOString();
+  const job: Job = { id: randomUUID(), status: "queued", progress: { stage: "queued" }, createdAt: now, updatedAt: now };
+  jobs.set(job.id, job);
+  tasks.set(job.id, { task, cleanup });
+  queue.push(job.id);
+  setImmediate(runNext);
+  return job;
+}
+
+export function getJob(id: string): Job {
+  const job = jobs.get(id);
+  if (!job) throw notFound(id);
+  return job;
+}
+
+// Queued jobs never start; a running job is signalled and stops at its next
+// progress report at the latest. Finished jobs have their results removed.
+export function cancelJob(id: string): Job {
+  const job = getJob(id);
+  if (job.status === "queued" || job.status === "running") {
+    finish(job, "cancelled");
+    cancellers.get(id)?.abort();
+  } else {
+    fs.rmSync(jobDir(id), { recursive: true, force: true });
+    jobs.delete(id);
+  }
+  return job;
+}
+
+// Results can only be fetched from finished jobs
+function finishedDir(id: string): string {
+  const job = getJob(id);
+  if (job.status !== "done") {
+    throw new ApiError(409, "job_not_finished", `Job ${id} is ${job.status}, not done`);
+  }
+  return jobDir(id);
+}
+
+export function jobResult(id: string): unknown {
+  return readJsonFile(path.join(finishedDir(id), "result.json"));
+}
+
+export function jobZipPath(id: string): string {
+  return path.join(finishedDir(id), "resolved_timetables.zip");
+}
+
+// Forget expired jobs and remove their results, along with results left
+// behind by an earlier run of the server
+export function expireJobs(now = Date.now()) {
+  for (const [id, job] of jobs) {
+    if (job.expiresAt && Date.parse(job.expiresAt) <= now) {
+      fs.rmSync(jobDir(id), { recursive: true, force: true });
+      jobs.delete(id);
+    }
+  }
+  const root = dataPath("jobs");
+  if (!fs.existsSync(root)) return;
+  for (const id of fs.readdirSync(root)) {
+    if (!jobs.has(id)) fs.rmSync(path.join(root, id), { recursive: true, force: true });
+  }
+}
+
+// Sweep once a minute without keeping the process alive
+setInterval(() => expireJobs(), 60_000).unref();
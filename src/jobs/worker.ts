@@ -0,0 +1,82 @@
+import { Worker, isMainThread, parentPort, workerData } from "worker_threads";
+import { SupportFiles, buildZip, resolveFiles, runToJson } from "../pipeline";
+import { ApiError, ErrorCode, FieldIssue, FileIssue } from "../contract";
+import type { JobControl, JobOutput, JobProgress } from "./index";
+
+// An upload resolved as a background job. Parsing, solving and rendering run
+// on a worker thread, so the server keeps answering status polls, cancels
+// and other requests while a large upload is worked on.
+
+// Everything the worker needs, as plain data that can be copied to it
+export type ResolveJob = {
+  files: Express.Multer.File[];
+  body: Record<string, unknown>;
+  support: SupportFiles;
+};
+
+// Errors lose their class and fields when copied between threads, so a
+// failure is sent as the fields of its ApiError, if it was one
+type WorkerFailure = { message: string; status?: number; code?: ErrorCode; fields?: FieldIssue[]; files?: FileIssue[] };
+
+type WorkerMessage =
+  | { type: "progress"; progress: JobProgress }
+  | { type: "done"; result: unknown; zip: Uint8Array }
+  | { type: "failed"; error: WorkerFailure };
+
+// Run from source (the dev server, tests), the worker compiles its modules too
+const execArgv = __filename.endsWith(".ts") ? ["--require", "ts-node/register/transpile-only"] : [];
+
+// Resolve the job on a new worker thread. Progress is passed on to control;
+// cancelling the job stops the worker straight away.
+export function resolveInWorker(job: ResolveJob, control: JobControl): Promise<JobOutput> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(__filename, { workerData: { resolveJob: job }, execArgv });
+    let settled = false;
+    const settle = (outcome: () => void) => {
+      if (settled) return;
+      settled = true;
+      control.signal.removeEventListener("abort", cancel);
+      void worker.terminate();
+      outcome();
+    };
+    const cancel = () => settle(() => reject(new Error("Job cancelled")));
+    if (control.signal.aborted) return cancel();
+    control.signal.addEventListener("abort", cancel);
+
+    worker.on("message", (message: WorkerMessage) => {
+      if (message.type === "progress") {
+        try {
+          control.report(message.progress);
+        } catch (err) {
+          settle(() => reject(err));
+        }
+      } else if (message.type === "done") {
+        const zip = Buffer.from(message.zip.buffer, message.zip.byteOffset, message.zip.byteLength);
+        settle(() => resolve({ result: message.result, zip }));
+      } else {
+        const { message: text, status, code, fields, files } = message.error;
+        settle(() => reject(status && code ? new ApiError(status, code, text, { fields, files }) : new Error(text)));
+      }
+    });
+    worker.on("error", err => settle(() => reject(err)));
+    worker.on("exit", code => settle(() => reject(new Error(`Job worker stopped with exit code ${code}`))));
+  });
+}
+
+if (!isMainThread && workerData?.resolveJob) {
+  const job: ResolveJob = workerData.resolveJob;
+  const send = (message: WorkerMessage) => parentPort!.postMessage(message);
+  (async () => {
+    const run = await resolveFiles(job.files, job.body, job.support, {
+      onProgress: progress => send({ type: "progress", progress })
+    });
+    send({ type: "progress", progress: { stage: "rendering" } });
+    const zip = await buildZip(run, job.body);
+    send({ type: "done", result: runToJson(run), zip });
+  })().catch((err: any) => {
+    const error: WorkerFailure = err instanceof ApiError
+      ? { message: err.message, status: err.status, code: err.code, fields: err.fields, files: err.files }
+      : { message: err?.message || String(err) };
+    send({ type: "failed", error });
+  });
+}
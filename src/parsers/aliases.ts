@@ -0,0 +1,57 @@
+import path from "path";
+import { TableRecord, readTableRecords } from "./index";
+import { readTextFile, sniffFile } from "./sniff";
+import { AliasDictionary, IdentityKind } from "../solver/identity";
+import { aliasesFileSchema, describeIssues } from "../routes/schemas";
+import { ApiError } from "../contract";
+
+const KINDS: IdentityKind[] = ["teacher", "room", "group"];
+
+// Tabular alias files (CSV/XLSX) give one spelling per row and the name to
+// use for it:
+//
+//   type,    name,               canonical
+//   teacher, ABELLO,             Dr. A. Bello
+//   room,    Main Lecture Hall,  LT1
+//   group,   Year 1 CS,          CS1
+//
+// JSON files use the AliasDictionary shape, e.g. { "teacher": { "ABELLO": "Dr. A. Bello" } }.
+export async function parseAliasesFile(file: Express.Multer.File): Promise<AliasDictionary> {
+  const kind = sniffFile(file);
+  if (kind === "json" || path.extname(file.originalname).toLowerCase() === ".json") {
+    return parseAliasesJson(readTextFile(file.path));
+  }
+  const recs = await readTableRecords(file, kind);
+  return aliasesFromRecords(recs);
+}
+
+export function parseAliasesJson(text: string): AliasDictionary {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw aliasesError("JSON aliases file could not be parsed");
+  }
+  const result = aliasesFileSchema.safeParse(raw);
+  if (!result.success) throw aliasesError(describeIssues(result.error));
+  return result.data;
+}
+
+function aliasesFromRecords(recs: TableRecord[]): AliasDictionary {
+  const out: AliasDictionary = {};
+  recs.forEach((r, i) => {
+    const field = (name: string) => String(r[name] ?? r[name[0].toUpperCase() + name.slice(1)] ?? "").trim();
+    const type = field("type").toLowerCase() as IdentityKind;
+    const name = field("name");
+    const canonical = field("canonical");
+    if (!type && !name) return;
+    if (!KINDS.includes(type)) throw aliasesError(`row ${i + 2} has unknown type "${type}"; use teacher, room or group`);
+    if (!name || !canonical) throw aliasesError(`row ${i + 2} needs both a name and a canonical name`);
+    out[type] = { ...out[type], [name]: canonical };
+  });
+  return out;
+}
+
+function aliasesError(message: string): ApiError {
+  return new ApiError(400, "invalid_file", `Invalid aliases file: ${message}`);
+}
@@ -0,0 +1,131 @@
+// Fields a header column can map to
+export type ColumnField =
+  | "day" | "period" | "subject" | "teacher" | "group" | "room" | "locked"
+  | "weeks" | "startDate" | "endDate";
+
+// Field -> header text, e.g. { "teacher": "Lecturer Name", "room": "Hall" }
+export type ColumnMapping = Partial<Record<ColumnField, string>>;
+
+// How one header column was understood
+export type ColumnMatch = {
+  header: string;
+  field: ColumnField | null;
+  confidence: number; // 0..1
+  method: "mapping" | "exact" | "synonym" | "fuzzy" | "none";
+  examples: string[]; // first few values under the header, filled in by the caller
+};
+
+export const COLUMN_FIELDS: ColumnField[] = [
+  "day", "period", "subject", "teacher", "group", "room", "locked", "weeks", "startDate", "endDate"
+];
+
+// Weaker matches leave the column unmapped
+export const MIN_CONFIDENCE = 0.6;
+
+const SYNONYMS: Record<ColumnField, string[]> = {
+  day: ["weekday", "day of week", "dow"],
+  period: ["time", "slot", "time slot", "hour", "session"],
+  subject: ["class", "course", "course code", "course title", "course name", "lesson", "module", "unit", "paper"],
+  teacher: ["staff", "lecturer", "tutor", "instructor", "faculty", "teacher name"],
+  group: ["groups", "class group", "classgroup", "cohort", "level", "section", "set", "stream", "programme", "form"],
+  room: ["venue", "hall", "location", "lab", "classroom", "lecture hall", "building"],
+  locked: ["pinned", "fixed", "lock"],
+  weeks: ["week", "week pattern", "teaching weeks", "rotation", "ab week", "a b week"],
+  // Not "start" or "end" alone: those more often head a lesson's clock times
+  startDate: ["start date", "from date", "date from", "begins"],
+  endDate: ["end date", "to date", "date to", "until"]
+};
+
+// Lower-case words only: "Lecturer_Name" -> "lecturer name"
+function normalizeHeader(text: string): string {
+  return text
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for equal strings, falling towards 0 as more edits are needed
+export function similarity(a: string, b: string): number {
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+}
+
+// Best field for a single header: exact field name, known synonym, a header
+// containing a field name or synonym as a word ("Lecturer Name"), or a near
+// spelling ("Techer")
+export function matchHeader(header: string): Omit<ColumnMatch, "examples"> {
+  const text = normalizeHeader(header);
+  const none = { header, field: null, confidence: 0, method: "none" as const };
+  if (!text) return none;
+
+  let best: Omit<ColumnMatch, "examples"> = none;
+  const consider = (field: ColumnField, confidence: number, method: ColumnMatch["method"]) => {
+    if (confidence > best.confidence) best = { header, field, confidence, method };
+  };
+  const words = text.split(" ");
+  for (const field of COLUMN_FIELDS) {
+    const names = [field, ...SYNONYMS[field]];
+    if (text === field) consider(field, 1, "exact");
+    if (SYNONYMS[field].includes(text)) consider(field, 0.95, "synonym");
+    for (const name of names) {
+      // Whole words of the header, e.g. "course" in "course code title"
+      const nameWords = name.split(" ");
+      const containsName = words.some((_, i) => nameWords.every((w, j) => words[i + j] === w));
+      if (containsName) consider(field, 0.8 - 0.05 * Math.max(0, words.length - nameWords.length - 1), "synonym");
+      const score = similarity(text, name);
+      if (score >= 0.8) consider(field, Math.round(score * 0.8 * 100) / 100, "fuzzy");
+    }
+  }
+  return best;
+}
+
+// Match every header, letting the given mapping override detection. Each
+// field is taken by its most confident header only.
+export function detectColumns(header: string[], mapping: ColumnMapping = {}): ColumnMatch[] {
+  const matches: ColumnMatch[] = header.map(h => ({ ...matchHeader(h), examples: [] }));
+  const overridden = new Set<ColumnField>();
+  for (const field of COLUMN_FIELDS) {
+    const wanted = mapping[field];
+    if (!wanted) continue;
+    const exact = header.indexOf(wanted);
+    const index = exact !== -1 ? exact : header.findIndex(h => normalizeHeader(h) === normalizeHeader(wanted));
+    if (index === -1) continue;
+    matches[index] = { header: header[index], field, confidence: 1, method: "mapping", examples: [] };
+    overridden.add(field);
+  }
+
+  const taken = new Set<ColumnField>(overridden);
+  const byConfidence = matches
+    .map((m, i) => ({ m, i }))
+    .filter(({ m }) => m.method !== "mapping")
+    .sort((a, b) => b.m.confidence - a.m.confidence);
+  for (const { m, i } of byConfidence) {
+    if (!m.field || m.confidence < MIN_CONFIDENCE || taken.has(m.field)) {
+      matches[i] = { ...m, field: null, confidence: 0, method: "none" };
+      continue;
+    }
+    taken.add(m.field);
+  }
+  return matches;
+}
+
+// Field -> header for the columns that were matched
+export function columnMapping(matches: ColumnMatch[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const m of matches) {
+    if (m.field) mapping[m.field] = m.header;
+  }
+  return mapping;
+}
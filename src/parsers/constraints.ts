@@ -0,0 +1,82 @@
+import path from "path";
+import { TableRecord, readTableRecords } from "./index";
+import { readTextFile, sniffFile } from "./sniff";
+import { SchedulingConstraints, emptyConstraints } from "../solver/constraints";
+import { constraintsFileSchema, describeIssues } from "../routes/schemas";
+import { ApiError } from "../contract";
+
+// Tabular constraint files (CSV/XLSX) use one constraint per row:
+//
+//   type,               name,       value
+//   teacher_unavailable, Mr Ade,    Mon-P1
+//   room_capacity,       Lab 2,     30
+//   group_size,          CS1,       120
+//   room_feature,        Lab 2,     lab; projector
+//   subject_requires,    Chemistry, lab
+//
+// JSON files use the SchedulingConstraints shape directly (any key may be omitted).
+export async function parseConstraintsFile(file: Express.Multer.File): Promise<SchedulingConstraints> {
+  // Checked by content; a broken .json file still gets the JSON parser's message
+  const kind = sniffFile(file);
+  if (kind === "json" || path.extname(file.originalname).toLowerCase() === ".json") {
+    return parseConstraintsJson(readTextFile(file.path));
+  }
+  const recs = await readTableRecords(file, kind);
+  return constraintsFromRecords(recs);
+}
+
+export function parseConstraintsJson(text: string): SchedulingConstraints {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw constraintsError("JSON constraints file could not be parsed");
+  }
+  const result = constraintsFileSchema.safeParse(raw);
+  if (!result.success) throw constraintsError(describeIssues(result.error));
+  return result.data;
+}
+
+function constraintsFromRecords(recs: TableRecord[]): SchedulingConstraints {
+  const out = emptyConstraints();
+  recs.forEach((r, i) => {
+    const field = (name: string) => String(r[name] ?? r[name[0].toUpperCase() + name.slice(1)] ?? "").trim();
+    const type = field("type").toLowerCase().replace(/[\s-]+/g, "_");
+    const name = field("name");
+    const value = field("value");
+    if (!type && !name) return;
+    if (!name) throw constraintsError(`row ${i + 2} has no name`);
+
+    const list = () => value.split(/[;,]/).map(v => v.trim()).filter(Boolean);
+    const number = () => {
+      const n = Number(value);
+      if (!Number.isFinite(n) || n < 0) throw constraintsError(`row ${i + 2} needs a number, got "${value}"`);
+      return n;
+    };
+
+    switch (type) {
+      case "teacher_unavailable":
+        out.teacherUnavailable[name] = [...(out.teacherUnavailable[name] || []), ...list()];
+        break;
+      case "room_capacity":
+        out.roomCapacity[name] = number();
+        break;
+      case "group_size":
+        out.groupSize[name] = number();
+        break;
+      case "room_feature":
+        out.roomFeatures[name] = [...(out.roomFeatures[name] || []), ...list()];
+        break;
+      case "subject_requires":
+        out.subjectRequirements[name] = [...(out.subjectRequirements[name] || []), ...list()];
+        break;
+      default:
+        throw constraintsError(`row ${i + 2} has unknown type "${type}"`);
+    }
+  });
+  return out;
+}
+
+function constraintsError(message: string): ApiError {
+  return new ApiError(400, "invalid_file", `Invalid constraints file: ${message}`);
+}
@@ -0,0 +1,138 @@
+import { TimetableRow } from "./index";
+import { ColumnMatch } from "./columns";
+import { TextStrategy } from "./text";
+
+// What the parser made of one file (or one sheet of a workbook), before the
+// solver sees the rows
+export type ParsedFile = {
+  sheet?: string;
+  layout: "rows" | "grid" | "text";
+  strategy?: TextStrategy; // for PDF, DOCX and text files
+  rows: TimetableRow[];
+  unmappedColumns: string[];
+  columns: ColumnMatch[]; // how each header column was matched, for row layouts
+};
+
+export type RowRejection = {
+  row?: number; // 1-based row (or lesson, for text files) in the source file
+  reason: string;
+  values: Pick<TimetableRow, "day" | "period" | "subject" | "teacher" | "group" | "room">;
+};
+
+// Why a file could not be read:
+//   empty_file: nothing was uploaded under the name
+//   unsupported_file_type: the content is not a spreadsheet, document, PDF or text
+//   sheet_not_found: none of the requested workbook sheets exist
+//   parse_failed: the file is of a known type but could not be read
+export type FileErrorCode = "empty_file" | "unsupported_file_type" | "sheet_not_found" | "parse_failed";
+
+export const FILE_ERROR_CODES: FileErrorCode[] = ["empty_file", "unsupported_file_type", "sheet_not_found", "parse_failed"];
+
+// A file that cannot be read for one of the reasons above. Its code goes
+// into the file's diagnostics, or the file issue of a refused support file.
+export class FileError extends Error {
+  readonly status = 400;
+
+  constructor(readonly code: FileErrorCode, message: string) {
+    super(message);
+    this.name = "FileError";
+  }
+}
+
+export type FileDiagnostics = {
+  file: string;
+  sheet?: string; // workbook sheet, when the file has several
+  parsed: boolean;
+  error?: string;
+  errorCode?: FileErrorCode;
+  layout?: ParsedFile["layout"];
+  strategy?: ParsedFile["strategy"];
+  rowCount: number; // rows read from the file
+  acceptedRows: number; // rows the solver could schedule
+  rejectedRows: RowRejection[];
+  unmappedColumns: string[]; // header columns that did not map to any field
+  warnings: string[];
+};
+
+export function fileDiagnostics(file: string, parsed: ParsedFile): FileDiagnostics {
+  const warnings: string[] = [];
+  if (parsed.rows.length === 0) warnings.push("No timetable rows were found in this file");
+  if (parsed.unmappedColumns.length > 0) {
+    warnings.push(`Ignored column(s): ${parsed.unmappedColumns.join(", ")}`);
+  }
+  return {
+    file,
+    sheet: parsed.sheet,
+    parsed: true,
+    layout: parsed.layout,
+    strategy: parsed.strategy,
+    rowCount: parsed.rows.length,
+    acceptedRows: parsed.rows.length,
+    rejectedRows: [],
+    unmappedColumns: parsed.unmappedColumns,
+    warnings
+  };
+}
+
+export function failedDiagnostics(file: string, error: string, errorCode: FileErrorCode = "parse_failed"): FileDiagnostics {
+  return {
+    file,
+    parsed: false,
+    error,
+    errorCode,
+    rowCount: 0,
+    acceptedRows: 0,
+    rejectedRows: [],
+    unmappedColumns: [],
+    warnings: []
+  };
+}
+
+// Fold the rows the solver refused to schedule into each file's report
+export function withRejections(
+  diagnostics: FileDiagnostics[],
+  rejected: { row: TimetableRow; reason: string }[]
+): FileDiagnostics[] {
+  return diagnostics.map(d => {
+    const mine = rejected.filter(r => r.row.sourceFile === d.file && r.row.sourceSheet === d.sheet);
+    return {
+      ...d,
+      acceptedRows: d.rowCount - mine.length,
+      rejectedRows: [
+        ...d.rejectedRows,
+        ...mine.map(({ row, reason }) => ({
+          row: row.sourceRow,
+          reason,
+          values: {
+            day: row.day,
+            period: row.period,
+            subject: row.subject,
+            teacher: row.teacher,
+            group: row.group,
+            room: row.room
+          }
+        }))
+      ]
+    };
+  });
+}
+
+// Plain-text version of the report for the download zip
+export function formatDiagnostics(diagnostics: FileDiagnostics[]): string {
+  let output = "PARSE DIAGNOSTICS\n";
+  output += "=".repeat(80) + "\n\n";
+  for (const d of diagnostics) {
+    output += d.sheet ? `${d.file} (${d.sheet}): ` : `${d.file}: `;
+    if (!d.parsed) {
+      output += `FAILED - ${d.error}\n\n`;
+      continue;
+    }
+    output += `${d.layout} layout${d.strategy ? ` (${d.strategy} strategy)` : ""}, ${d.rowCount} row(s) read, ${d.acceptedRows} scheduled, ${d.rejectedRows.length} rejected\n`;
+    for (const w of d.warnings) output += `  ! ${w}\n`;
+    for (const r of d.rejectedRows) {
+      output += `  - ${r.row !== undefined ? `row ${r.row}` : "row ?"}: ${r.reason}\n`;
+    }
+    output += "\n";
+  }
+  return output;
+}
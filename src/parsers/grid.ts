@@ -0,0 +1,144 @@
+import { TimetableRow } from "./index";
+import { DEFAULT_CALENDAR, SchoolCalendar, isWeekdayName, normalizeDay, periodSpan } from "../solver/calendar";
+
+// How to read grid cells such as "Maths / Mr Ade / R12"
+export type GridOptions = {
+  separators?: string[]; // split a cell into fields (default "/", "|", new line)
+  fields?: ("subject" | "teacher" | "room" | "group")[]; // field order (default subject, teacher, room, group)
+};
+
+type GridLayout = {
+  headerRow: number;
+  labelColumn: number; // column holding day names (or period names when transposed)
+  transposed: boolean; // days across the top, periods down the side
+};
+
+const DEFAULT_SEPARATORS = ["/", "|", "\n"];
+const DEFAULT_FIELDS: NonNullable<GridOptions['fields']> = ["subject", "teacher", "room", "group"];
+const EMPTY_CELL = /^(-+|—|free|break|lunch|n\/?a|x)?$/i;
+const PERIOD_HEADER = /^(p(eriod)?\s*\d+|\d+|\d{1,2}[:.]\d{2}(\s*[-–]\s*\d{1,2}[:.]\d{2})?)$/i;
+
+function countMatches(cells: string[], test: (text: string) => boolean): number {
+  return cells.filter(c => c && test(c.trim())).length;
+}
+
+// Look for a header row of periods with days down one column, or the transpose
+export function detectGrid(matrix: string[][]): GridLayout | null {
+  const scanRows = Math.min(matrix.length, 10);
+  for (let r = 0; r < scanRows; r++) {
+    const row = matrix[r] || [];
+    const filled = countMatches(row, () => true);
+    const periodHeaders = countMatches(row, t => PERIOD_HEADER.test(t));
+    const dayHeaders = countMatches(row, isWeekdayName);
+    // A header row is mostly labels; this keeps one-lesson-per-row data such
+    // as "Mon, 1, Maths, ..., 101" from being mistaken for one
+    const isHeader = (matches: number) => matches >= 2 && matches * 2 >= filled;
+
+    if (isHeader(periodHeaders)) {
+      // Days down a column below the header
+      for (let c = 0; c < Math.min(row.length, 3); c++) {
+        const column = matrix.slice(r + 1).map(line => line[c] || "");
+        if (countMatches(column, isWeekdayName) >= 1) return { headerRow: r, labelColumn: c, transposed: false };
+      }
+    }
+    if (isHeader(dayHeaders)) {
+      for (let c = 0; c < Math.min(row.length, 3); c++) {
+        const column = matrix.slice(r + 1).map(line => line[c] || "");
+        if (countMatches(column, t => PERIOD_HEADER.test(t)) >= 1) return { headerRow: r, labelColumn: c, transposed: true };
+      }
+    }
+  }
+  return null;
+}
+
+// Split cell text into lesson fields using the configured separators and field order
+export function splitCell(text: string, options: GridOptions = {}): Partial<TimetableRow> {
+  const separators = options.separators && options.separators.length > 0 ? options.separators : DEFAULT_SEPARATORS;
+  const fields = options.fields && options.fields.length > 0 ? options.fields : DEFAULT_FIELDS;
+  const pattern = new RegExp(separators.map(s => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|"));
+  const parts = text.split(pattern).map(p => p.trim());
+  const out: Partial<TimetableRow> = {};
+  fields.forEach((field, i) => {
+    if (parts[i]) out[field] = parts[i];
+  });
+  return out;
+}
+
+// Period ids a header names on a day: "P3", "Period 3" and "3" by number,
+// clock times such as "09:00" or "09:00-10:00" through the bell schedule
+function headerPeriods(header: string, day: string, calendar: SchoolCalendar): string[] {
+  return periodSpan(header.trim(), normalizeDay(day, calendar), calendar);
+}
+
+// Headers the calendar does not know are kept as written, so the solver
+// reports the rows instead of placing them by column position
+function periodFromHeader(header: string): string {
+  const trimmed = header.trim();
+  const numbered = trimmed.match(/^(?:p(?:eriod)?\s*)?(\d+)$/i);
+  return numbered ? `P${numbered[1]}` : trimmed;
+}
+
+// Turn a days x periods matrix into one row per lesson. Cells merged across
+// several periods arrive with the same text in each, so a run of equal
+// neighbouring cells is one lesson over every period they cover ("P1-P2").
+export function parseGrid(
+  matrix: string[][],
+  layout: GridLayout,
+  source: string,
+  options: GridOptions = {},
+  calendar: SchoolCalendar = DEFAULT_CALENDAR
+): TimetableRow[] {
+  // Normalise to days down column `dayColumn` and periods across row `headerIndex`
+  const grid = layout.transposed ? transpose(matrix.slice(layout.headerRow)) : matrix.slice(layout.headerRow);
+  const headerIndex = layout.transposed ? layout.labelColumn : 0;
+  const dayColumn = layout.transposed ? 0 : layout.labelColumn;
+  const header = grid[headerIndex];
+  const columns = header
+    .map((text, c) => ({ text: text || "", c }))
+    .filter(({ text, c }) => c !== dayColumn && PERIOD_HEADER.test(text.trim()));
+
+  const rows: TimetableRow[] = [];
+  grid.forEach((line, lineIndex) => {
+    if (lineIndex === headerIndex) return;
+    const day = (line[dayColumn] || "").trim();
+    if (!isWeekdayName(day)) return;
+    const cellAt = (c: number) => (line[c] || "").trim();
+    for (let first = 0; first < columns.length; first++) {
+      const cell = cellAt(columns[first].c);
+      if (EMPTY_CELL.test(cell)) continue;
+      // Extend over following period columns, and any columns between them
+      // such as a break, while the text stays the same
+      const continues = (from: number, to: number) => {
+        for (let c = from + 1; c <= to; c++) if (cellAt(c) !== cell) return false;
+        return true;
+      };
+      let last = first;
+      while (last + 1 < columns.length && continues(columns[last].c, columns[last + 1].c)) last++;
+
+      const spanned = columns.slice(first, last + 1);
+      const ids = [...new Set(spanned.flatMap(({ text }) => headerPeriods(text, day, calendar)))];
+      const period = ids.length === 0
+        ? periodFromHeader(columns[first].text)
+        : ids.length === 1 ? ids[0] : `${ids[0]}-${ids[ids.length - 1]}`;
+      rows.push({
+        day,
+        period,
+        subject: "",
+        teacher: "",
+        group: "",
+        room: "",
+        ...splitCell(cell, options),
+        sourceFile: source,
+        // Position in the original sheet, counted from 1
+        sourceRow: layout.headerRow + 1 + (layout.transposed ? columns[first].c : lineIndex)
+      });
+      first = last;
+    }
+  });
+  return rows;
+}
+
+function transpose(matrix: string[][]): string[][] {
+  const width = Math.max(0, ...matrix.map(r => r.length));
+  return Array.from({ length: width }, (_, c) => matrix.map(r => r[c] || ""));
+}
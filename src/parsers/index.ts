@@ -1,9 +1,22 @@
 import fs from "fs";
-import path from "path";
 import ExcelJS from "exceljs";
+import * as XLSX from "@e965/xlsx";
 import { parse as csvParse } from "csv-parse";
-import mammoth from "mammoth";
 import pdfParse from "pdf-parse";
+import { GridOptions } from "./grid";
+import { SchoolCalendar } from "../solver/calendar";
+import {
+  FileDiagnostics,
+  FileError,
+  FileErrorCode,
+  ParsedFile,
+  fileDiagnostics,
+  failedDiagnostics
+} from "./diagnostics";
+import { ColumnMapping, ColumnMatch, columnMapping } from "./columns";
+import { matrixToRecords, parseMatrix } from "./matrix";
+import { parseDocx, parseText } from "./text";
+import { FileKind, readTextFile, sniffFile } from "./sniff";
 
 export type TimetableRow = {
   day: string; // e.g., Mon
@@ -13,99 +26,242 @@ export type TimetableRow = {
   group?: string; // can be comma-separated groups
   room?: string;
   sourceFile?: string;
+  sourceSheet?: string; // workbook sheet the row came from
+  locked?: boolean; // pinned lessons are never moved by the solver
+  sourceRow?: number; // 1-based row (or line) in the source file, for diagnostics
+  weeks?: string; // teaching weeks, e.g. "A", "B", "1-6", "1, 3, 5-8" (default every week)
+  startDate?: string; // first and last day the lesson runs, YYYY-MM-DD or DD/MM/YYYY
+  endDate?: string;
 };
 
-export async function parseUploadedFiles(files: Express.Multer.File[]): Promise<TimetableRow[]> {
+export type { GridOptions } from "./grid";
+export type { FileDiagnostics, FileErrorCode, RowRejection } from "./diagnostics";
+export { withRejections, formatDiagnostics, FileError, FILE_ERROR_CODES } from "./diagnostics";
+export type { ColumnField, ColumnMapping, ColumnMatch } from "./columns";
+export { COLUMN_FIELDS } from "./columns";
+export type { TextStrategy } from "./text";
+export { parseTextTable } from "./text";
+export { matrixToRecords } from "./matrix";
+export type { FileKind } from "./sniff";
+export { sniffFile } from "./sniff";
+
+export type ParseOptions = {
+  grid?: GridOptions;
+  columns?: ColumnMapping; // header overrides for every file
+  fileColumns?: Record<string, ColumnMapping>; // header overrides by file name or sourceKey, taking precedence
+  sheets?: string[]; // workbook sheets to read (case-insensitive), default every visible sheet
+  calendar?: SchoolCalendar; // periods that grid headers such as "09:00-10:00" are mapped to
+};
+
+// Name of the timetable a row belongs to: the file, plus the sheet for workbooks
+export function sourceKey(row: Pick<TimetableRow, "sourceFile" | "sourceSheet">): string {
+  const file = row.sourceFile || "unknown";
+  return row.sourceSheet ? `${file} (${row.sourceSheet})` : file;
+}
+
+export type ParseResult = {
+  rows: TimetableRow[];
+  diagnostics: FileDiagnostics[];
+};
+
+export async function parseUploadedFiles(files: Express.Multer.File[], options: ParseOptions = {}): Promise<TimetableRow[]> {
+  return (await parseUploadedFilesWithDiagnostics(files, options)).rows;
+}
+
+// Parse every file and report, per file, whether it parsed, which layout was
+// recognised and which header columns were ignored. onFile is called before
+// each file with its 0-based index.
+export async function parseUploadedFilesWithDiagnostics(
+  files: Express.Multer.File[],
+  options: ParseOptions = {},
+  onFile?: (index: number, file: Express.Multer.File) => void
+): Promise<ParseResult> {
   const rows: TimetableRow[] = [];
+  const diagnostics: FileDiagnostics[] = [];
+  for (const [index, f] of files.entries()) {
+    onFile?.(index, f);
+    try {
+      for (const parsed of await parseFile(f, options)) {
+        rows.push(...parsed.rows);
+        diagnostics.push(fileDiagnostics(f.originalname, parsed));
+      }
+    } catch (err: any) {
+      diagnostics.push(failedDiagnostics(f.originalname, err?.message || String(err), fileErrorCode(err)));
+    }
+  }
+  return { rows, diagnostics };
+}
+
+// What a file would parse to, so the caller can confirm or correct the
+// column mapping before the real upload
+export type FilePreview = {
+  file: string;
+  sheet?: string;
+  parsed: boolean;
+  error?: string;
+  errorCode?: FileErrorCode;
+  layout?: ParsedFile["layout"];
+  strategy?: ParsedFile["strategy"];
+  columns: ColumnMatch[];
+  mapping: ColumnMapping; // field -> header as it would be applied
+  rowCount: number;
+  sampleRows: TimetableRow[];
+};
+
+export async function previewUploadedFiles(
+  files: Express.Multer.File[],
+  options: ParseOptions = {},
+  sampleSize = 5
+): Promise<FilePreview[]> {
+  const previews: FilePreview[] = [];
   for (const f of files) {
-    const ext = path.extname(f.originalname).toLowerCase();
     try {
-      if (ext === ".csv") {
-        const content = fs.readFileSync(f.path, "utf8");
-        const recs: any[] = [];
-        await new Promise<void>((resolve, reject) => {
-          csvParse(content, { columns: true, skip_empty_lines: true })
-            .on('data', (r) => recs.push(r))
-            .on('end', () => resolve())
-            .on('error', (err) => reject(err));
+      for (const parsed of await parseFile(f, options)) {
+        previews.push({
+          file: f.originalname,
+          sheet: parsed.sheet,
+          parsed: true,
+          layout: parsed.layout,
+          strategy: parsed.strategy,
+          columns: parsed.columns,
+          mapping: columnMapping(parsed.columns),
+          rowCount: parsed.rows.length,
+          sampleRows: parsed.rows.slice(0, sampleSize)
         });
-        for (const r of recs) rows.push(normalizeRow(r, f.originalname));
-      } else if (ext === ".xlsx" || ext === ".xls") {
-        const workbook = new ExcelJS.Workbook();
-        await workbook.xlsx.readFile(f.path);
-        const sheet = workbook.worksheets[0];
-        const header: string[] = [];
-        sheet.eachRow((row, rowNumber) => {
-          if (rowNumber === 1) {
-            row.eachCell((cell) => header.push(String(cell.text).trim()));
-          } else {
-            const r: any = {};
-            row.eachCell((cell, colNumber) => {
-              r[header[colNumber - 1] || `col${colNumber}`] = String(cell.text).trim();
-            });
-            rows.push(normalizeRow(r, f.originalname));
-          }
-        });
-      } else if (ext === ".docx") {
-        const buffer = fs.readFileSync(f.path);
-        const result = await mammoth.extractRawText({ buffer });
-        rows.push(...parseTextTable(result.value, f.originalname));
-      } else if (ext === ".pdf") {
-        const buffer = fs.readFileSync(f.path);
-        const data = await pdfParse(buffer);
-        rows.push(...parseTextTable(data.text, f.originalname));
-      } else {
-        // try to treat as text
-        const content = fs.readFileSync(f.path, "utf8");
-        rows.push(...parseTextTable(content, f.originalname));
       }
-    } catch (err) {
-      console.warn("Failed to parse", f.originalname, err);
-    } /* finally {
-      // optionally unlink uploaded file to save space
-      try { fs.unlinkSync(f.path); } catch {};
-    } */
+    } catch (err: any) {
+      previews.push({
+        file: f.originalname,
+        parsed: false,
+        error: err?.message || String(err),
+        errorCode: fileErrorCode(err),
+        columns: [],
+        mapping: {},
+        rowCount: 0,
+        sampleRows: []
+      });
+    }
   }
-  return rows;
+  return previews;
 }
 
-function normalizeRow(raw: any, source: string): TimetableRow {
-  // Attempt to map common column headers to our schema.
-  const mapKey = (k: string) => k.toLowerCase().trim();
-  const out: TimetableRow = {
-    day: raw.day || raw.Day || raw['DAY'] || raw["Day"] || raw["day"] || raw["weekday"] || raw["Weekday"] || raw["DAY_OF_WEEK"] || "",
-    period: raw.period || raw.Period || raw['PERIOD'] || raw["Time"] || raw["Slot"] || raw["Period"] || "",
-    subject: raw.subject || raw.Subject || raw['SUBJECT'] || raw["Class"] || raw["Course"] || raw["Lesson"] || "",
-    teacher: raw.teacher || raw.Teacher || raw["Staff"] || raw["Lecturer"] || "",
-    group: raw.group || raw.Group || raw["Groups"] || raw["ClassGroup"] || "",
-    room: raw.room || raw.Room || raw["Venue"] || "",
-    sourceFile: source
-  } as TimetableRow;
-  // trim
-  for (const k of Object.keys(out) as (keyof TimetableRow)[]) {
-    if (typeof out[k] === "string") out[k] = (out[k] as string).trim();
+// Workbooks yield one result per sheet; every other file yields one. The
+// parser is chosen by what the file holds, whatever its name says.
+async function parseFile(f: Express.Multer.File, options: ParseOptions): Promise<ParsedFile[]> {
+  const kind = sniffFile(f);
+  if (kind === "csv") {
+    return [parseMatrix(await readCsvMatrix(f.path), f.originalname, options)];
+  } else if (kind === "xlsx" || kind === "xls") {
+    const sheets = selectSheets(await readWorkbookMatrices(f.path, kind), options.sheets);
+    // Sheet names only matter when there is more than one timetable in the workbook
+    const named = sheets.length > 1 || (options.sheets?.length ?? 0) > 0;
+    return sheets.map(({ name, matrix }) => parseMatrix(matrix, f.originalname, options, named ? name : undefined));
+  } else if (kind === "docx") {
+    return [await parseDocx(fs.readFileSync(f.path), f.originalname, options)];
+  } else if (kind === "pdf") {
+    const data = await pdfParse(fs.readFileSync(f.path));
+    return [parseText(data.text, f.originalname, options)];
   }
-  return out;
+  // try to treat as text
+  const content = readTextFile(f.path);
+  return [parseText(content, f.originalname, options)];
 }
 
-function parseTextTable(text: string, source: string): TimetableRow[] {
-  // Multi-line parser for vertical timetable format
-  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
-  // Find header positions
-  const headerIdx = lines.findIndex(l => l.toLowerCase() === "day");
-  if (headerIdx === -1) return [];
-  const fields = ["day", "period", "subject", "teacher", "group", "room"];
-  const rows: TimetableRow[] = [];
-  // Start after header
-  for (let i = headerIdx + fields.length; i + fields.length - 1 < lines.length; i += fields.length) {
-    const r: any = {};
-    for (let j = 0; j < fields.length; j++) {
-      r[fields[j]] = lines[i + j] || "";
-    }
-    r.sourceFile = source;
-    rows.push(normalizeRow(r, source));
+// Requested sheets in workbook order, or every sheet that has content
+function selectSheets(sheets: SheetMatrix[], wanted: string[] = []): SheetMatrix[] {
+  if (wanted.length === 0) {
+    const filled = sheets.filter(s => s.matrix.some(line => line.some(Boolean)));
+    return filled.length > 0 ? filled : sheets.slice(0, 1);
+  }
+  const names = wanted.map(w => w.trim().toLowerCase());
+  const chosen = sheets.filter(s => names.includes(s.name.trim().toLowerCase()));
+  if (chosen.length === 0) {
+    throw new FileError("sheet_not_found", `None of the requested sheets were found; the workbook has: ${sheets.map(s => s.name).join(", ")}`);
   }
-  return rows;
+  return chosen;
+}
+
+// Read a CSV file as a matrix of trimmed cell texts
+async function readCsvMatrix(filePath: string): Promise<string[][]> {
+  const content = readTextFile(filePath);
+  const recs: string[][] = [];
+  await new Promise<void>((resolve, reject) => {
+    csvParse(content, { skip_empty_lines: true, relax_column_count: true })
+      .on('data', (r: string[]) => recs.push(r.map(c => String(c).trim())))
+      .on('end', () => resolve())
+      .on('error', (err) => reject(err));
+  });
+  return recs;
+}
+
+type SheetMatrix = {
+  name: string;
+  matrix: string[][];
+};
+
+// Read every visible sheet of a workbook as matrices of cell texts. Cells
+// inside a merged range repeat the merged value. Legacy .xls (BIFF) files,
+// which exceljs cannot open, are read with SheetJS.
+async function readWorkbookMatrices(filePath: string, kind: "xlsx" | "xls"): Promise<SheetMatrix[]> {
+  if (kind === "xls") return readLegacyWorkbook(filePath);
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+  return workbook.worksheets
+    .filter(sheet => sheet.state === "visible")
+    .map(sheet => {
+      const matrix: string[][] = [];
+      sheet.eachRow((row, rowNumber) => {
+        const cells: string[] = [];
+        row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+          cells[colNumber - 1] = String(cell.text).trim();
+        });
+        matrix[rowNumber - 1] = Array.from(cells, c => c || "");
+      });
+      return { name: sheet.name, matrix: Array.from(matrix, r => r || []) };
+    });
 }
 
-export { parseTextTable };
+function readLegacyWorkbook(filePath: string): SheetMatrix[] {
+  const workbook = XLSX.read(fs.readFileSync(filePath), { type: "buffer" });
+  return workbook.SheetNames
+    .filter((_, i) => !workbook.Workbook?.Sheets?.[i]?.Hidden)
+    .map(name => {
+      const sheet = workbook.Sheets[name];
+      const lines: unknown[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false, defval: "", blankrows: true });
+      const matrix = lines.map(line => line.map(c => String(c ?? "").trim()));
+      for (const merge of sheet["!merges"] || []) {
+        const value = matrix[merge.s.r]?.[merge.s.c] || "";
+        for (let r = merge.s.r; r <= merge.e.r; r++) {
+          for (let c = merge.s.c; c <= merge.e.c; c++) {
+            if (!matrix[r]) matrix[r] = [];
+            matrix[r][c] = value;
+          }
+        }
+      }
+      return { name, matrix: Array.from(matrix, r => Array.from(r || [], c => c || "")) };
+    });
+}
+
+// One row of a tabular support file: cell text by header
+export type TableRecord = Record<string, string>;
+
+// Records of a tabular support file (constraints, aliases, qualifications)
+// of the given kind, from every sheet of a workbook that has content; JSON
+// files are read by each file's own parser
+export async function readTableRecords(file: Express.Multer.File, kind: FileKind): Promise<TableRecord[]> {
+  let matrices: string[][][];
+  if (kind === "xlsx" || kind === "xls") {
+    matrices = selectSheets(await readWorkbookMatrices(file.path, kind)).map(sheet => sheet.matrix);
+  } else if (kind === "csv" || kind === "text") {
+    matrices = [await readCsvMatrix(file.path)];
+  } else {
+    throw new FileError("unsupported_file_type", `${file.originalname}: expected a CSV, Excel or JSON file, not ${kind.toUpperCase()}`);
+  }
+  // Each sheet has its own header row
+  return matrices.flatMap(matrix => matrixToRecords(matrix).map(({ __row, ...cells }) => cells));
+}
+
+// Parse failures carry a file code when the cause is known
+function fileErrorCode(err: unknown): FileErrorCode {
+  return err instanceof FileError ? err.code : "parse_failed";
+}
@@ -0,0 +1,93 @@
+import { TimetableRow, ParseOptions, sourceKey } from "./index";
+import { detectGrid, parseGrid } from "./grid";
+import { ParsedFile } from "./diagnostics";
+import { COLUMN_FIELDS, ColumnField, ColumnMapping, columnMapping, detectColumns } from "./columns";
+
+// Use the row at headerIndex as the header and turn the rows below it into
+// records. Each record remembers its 1-based row number under __row.
+export function matrixToRecords(matrix: string[][], headerIndex = 0): any[] {
+  const header = matrix[headerIndex] || [];
+  return matrix
+    .map((line, i) => ({ line: line || [], rowNumber: i + 1 }))
+    .slice(headerIndex + 1)
+    .filter(({ line }) => line.some(Boolean))
+    .map(({ line, rowNumber }) => {
+      const r: any = { __row: rowNumber };
+      line.forEach((cell, i) => {
+        if (cell) r[header[i] || `col${i + 1}`] = cell;
+      });
+      return r;
+    });
+}
+
+// The header is the first of the top rows naming both a day and a period
+// column, so title lines above it are skipped; otherwise the first row
+function findHeaderRow(matrix: string[][], overrides?: ColumnMapping): number {
+  const scanRows = Math.min(matrix.length, 10);
+  for (let r = 0; r < scanRows; r++) {
+    const fields = detectColumns((matrix[r] || []).filter(Boolean), overrides).map(c => c.field);
+    if (fields.includes("day") && fields.includes("period")) return r;
+  }
+  return Math.max(0, matrix.findIndex(line => (line || []).some(Boolean)));
+}
+
+// Grid-shaped sheets (days x periods) are detected automatically; anything
+// else is read as one lesson per row under a header row whose columns are
+// matched to fields by name, synonym or near spelling
+export function parseMatrix(matrix: string[][], source: string, options: ParseOptions, sheet?: string): ParsedFile {
+  const withSheet = (row: TimetableRow): TimetableRow => sheet ? { ...row, sourceSheet: sheet } : row;
+  const layout = detectGrid(matrix);
+  if (layout) {
+    return {
+      sheet,
+      layout: "grid",
+      rows: parseGrid(matrix, layout, source, options.grid, options.calendar).map(r => withSheet(normalizeRow(r, source))),
+      unmappedColumns: [],
+      columns: []
+    };
+  }
+  const overrides = options.fileColumns?.[sourceKey({ sourceFile: source, sourceSheet: sheet })]
+    || options.fileColumns?.[source]
+    || options.columns;
+  const headerIndex = findHeaderRow(matrix, overrides);
+  const header = matrix[headerIndex] || [];
+  const records = matrixToRecords(matrix, headerIndex);
+  const columns = detectColumns(header.filter(Boolean), overrides);
+  for (const column of columns) {
+    column.examples = records.map(r => r[column.header]).filter(Boolean).slice(0, 3);
+  }
+  const mapping = columnMapping(columns);
+  return {
+    sheet,
+    layout: "rows",
+    rows: records.map(r => withSheet(normalizeRow(r, source, mapping))),
+    unmappedColumns: columns.filter(c => !c.field).map(c => c.header),
+    columns
+  };
+}
+
+// Rows built by the grid and text parsers already use field names as keys
+const FIELD_NAMES: ColumnMapping = Object.fromEntries(COLUMN_FIELDS.map(f => [f, f]));
+
+export function normalizeRow(raw: any, source: string, mapping: ColumnMapping = FIELD_NAMES): TimetableRow {
+  const value = (field: ColumnField) => {
+    const header = mapping[field];
+    return header && raw[header] !== undefined ? String(raw[header]).trim() : "";
+  };
+  const out: TimetableRow = {
+    day: value("day"),
+    period: value("period"),
+    subject: value("subject"),
+    teacher: value("teacher"),
+    group: value("group"),
+    room: value("room"),
+    sourceFile: source
+  };
+  if (raw.locked === true || /^(y|yes|true|1|x|locked|pinned|fixed)$/i.test(value("locked"))) out.locked = true;
+  for (const field of ["weeks", "startDate", "endDate"] as const) {
+    if (value(field)) out[field] = value(field);
+  }
+  const rowNumber = raw.__row ?? raw.sourceRow;
+  if (typeof rowNumber === "number") out.sourceRow = rowNumber;
+  return out;
+}
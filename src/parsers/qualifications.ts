@@ -0,0 +1,53 @@
+import path from "path";
+import { TableRecord, readTableRecords } from "./index";
+import { readTextFile, sniffFile } from "./sniff";
+import { Qualifications } from "../solver/substitutes";
+import { describeIssues, qualificationsFileSchema } from "../routes/schemas";
+import { ApiError } from "../contract";
+
+// Tabular qualification files (CSV/XLSX) list a teacher and the subjects
+// they can teach; a teacher may appear on several rows:
+//
+//   teacher,        subjects
+//   Dr. A. Bello,   CS101; CS102
+//   Mrs O. Okafor,  MTH101
+//
+// JSON files map teachers to subjects, e.g. { "Dr. A. Bello": ["CS101", "CS102"] }.
+export async function parseQualificationsFile(file: Express.Multer.File): Promise<Qualifications> {
+  const kind = sniffFile(file);
+  if (kind === "json" || path.extname(file.originalname).toLowerCase() === ".json") {
+    return parseQualificationsJson(readTextFile(file.path));
+  }
+  const recs = await readTableRecords(file, kind);
+  return qualificationsFromRecords(recs);
+}
+
+export function parseQualificationsJson(text: string): Qualifications {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw qualificationsError("JSON qualifications file could not be parsed");
+  }
+  const result = qualificationsFileSchema.safeParse(raw);
+  if (!result.success) throw qualificationsError(describeIssues(result.error));
+  return result.data;
+}
+
+function qualificationsFromRecords(recs: TableRecord[]): Qualifications {
+  const out: Qualifications = {};
+  recs.forEach((r, i) => {
+    const field = (...names: string[]) =>
+      names.map(name => r[name] ?? r[name[0].toUpperCase() + name.slice(1)]).find(v => v !== undefined);
+    const teacher = String(field("teacher") ?? "").trim();
+    const subjects = String(field("subjects", "subject") ?? "").split(/[;,]/).map(s => s.trim()).filter(Boolean);
+    if (!teacher && subjects.length === 0) return;
+    if (!teacher || subjects.length === 0) throw qualificationsError(`row ${i + 2} needs a teacher and at least one subject`);
+    out[teacher] = [...new Set([...(out[teacher] || []), ...subjects])];
+  });
+  return out;
+}
+
+function qualificationsError(message: string): ApiError {
+  return new ApiError(400, "invalid_file", `Invalid qualifications file: ${message}`);
+}
@@ -0,0 +1,94 @@
+import fs from "fs";
+import path from "path";
+import { FileError } from "./diagnostics";
+
+// What a file holds, judged from its bytes. The extension only breaks the tie
+// between the text kinds, since a CSV and a pasted timetable look alike.
+export type FileKind = "xlsx" | "xls" | "docx" | "pdf" | "json" | "csv" | "text";
+
+const OLE_MAGIC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+// Enough of each end of a file to tell its kind: zip archives list their
+// parts at the end, and the rest announce themselves at the start
+const SAMPLE_BYTES = 64 * 1024;
+
+function utf16(text: string): Buffer {
+  return Buffer.from(text, "utf16le");
+}
+
+function readEnds(filePath: string): { head: Buffer; tail: Buffer; size: number } {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const size = fs.fstatSync(fd).size;
+    const head = Buffer.alloc(Math.min(size, SAMPLE_BYTES));
+    fs.readSync(fd, head, 0, head.length, 0);
+    const tail = Buffer.alloc(Math.min(Math.max(size - head.length, 0), SAMPLE_BYTES));
+    fs.readSync(fd, tail, 0, tail.length, size - tail.length);
+    return { head, tail, size };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Text as UTF-8 when it is valid UTF-8, else as Windows-1252 (Latin-1),
+// which is what Excel's "Save as CSV" writes on most machines
+export function decodeText(buffer: Buffer): string {
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    text = new TextDecoder("latin1").decode(buffer);
+  }
+  return text.replace(/^﻿/, "");
+}
+
+export function readTextFile(filePath: string): string {
+  return decodeText(fs.readFileSync(filePath));
+}
+
+// Comma, semicolon or tab separated, with the same number of cells on the
+// first few lines
+function looksDelimited(text: string): boolean {
+  const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 5);
+  if (lines.length === 0) return false;
+  return [",", ";", "\t"].some(sep => {
+    const counts = lines.map(l => l.split(sep).length);
+    return counts[0] > 1 && counts.every(c => c === counts[0]);
+  });
+}
+
+export function sniffFile(file: Pick<Express.Multer.File, "path" | "originalname">): FileKind {
+  const { head, tail, size } = readEnds(file.path);
+  if (size === 0) throw fileTypeError(file.originalname, "empty_file", "The file is empty");
+  const contains = (needle: string | Buffer) => head.includes(needle) || tail.includes(needle);
+
+  if (head.subarray(0, 4).toString("binary") === "PK\x03\x04") {
+    // Office files are zip archives; their part names are stored uncompressed
+    if (contains("word/document.xml")) return "docx";
+    if (contains("xl/workbook.xml")) return "xlsx";
+    throw fileTypeError(file.originalname, "unsupported_file_type", "The file is a zip archive, not a Word or Excel document");
+  }
+  // Legacy Office files share one container; only Excel's can be read
+  if (head.subarray(0, OLE_MAGIC.length).equals(OLE_MAGIC)) {
+    if (contains(utf16("WordDocument"))) {
+      throw fileTypeError(file.originalname, "unsupported_file_type", "Legacy Word (.doc) files are not supported; save it as .docx");
+    }
+    return "xls";
+  }
+  if (head.subarray(0, 1024).includes("%PDF-")) return "pdf";
+
+  if (head.includes(0)) {
+    throw fileTypeError(file.originalname, "unsupported_file_type", "The file is not a spreadsheet, document, PDF or text file");
+  }
+  // A sample cut mid-character falls back to Latin-1, which still tells the kind
+  const text = decodeText(head);
+  if (/^\s*[[{]/.test(text)) return "json";
+  const ext = path.extname(file.originalname).toLowerCase();
+  if (ext === ".csv") return "csv";
+  if (ext === ".txt") return "text";
+  return looksDelimited(text) ? "csv" : "text";
+}
+
+function fileTypeError(file: string, code: "empty_file" | "unsupported_file_type", message: string): FileError {
+  return new FileError(code, `${file}: ${message}`);
+}
@@ -0,0 +1,133 @@
+import mammoth from "mammoth";
+import { TimetableRow, ParseOptions } from "./index";
+import { ParsedFile } from "./diagnostics";
+import { parseMatrix, normalizeRow } from "./matrix";
+
+// How the rows of a PDF, DOCX or text file were found:
+//   docx-tables: tables read from the document structure
+//   delimited: one lesson (or one grid row) per line, split on tabs, pipes or runs of spaces
+//   vertical: every field on its own line after a "Day" header
+export type TextStrategy = "docx-tables" | "delimited" | "vertical";
+
+// A result is only trusted if it is a grid or found both day and period columns
+function isUsable(parsed: ParsedFile): boolean {
+  if (parsed.rows.length === 0) return false;
+  if (parsed.layout === "grid") return true;
+  const fields = parsed.columns.map(c => c.field);
+  return fields.includes("day") && fields.includes("period");
+}
+
+// Try the line-based strategies in turn, falling back to the vertical layout
+export function parseText(text: string, source: string, options: ParseOptions = {}): ParsedFile {
+  const delimited = parseMatrix(splitLines(text), source, options);
+  if (isUsable(delimited)) return { ...delimited, strategy: "delimited" };
+  return { layout: "text", strategy: "vertical", rows: parseTextTable(text, source), unmappedColumns: [], columns: [] };
+}
+
+// Tables in the document come first; documents without usable tables are
+// read as text
+export async function parseDocx(buffer: Buffer, source: string, options: ParseOptions = {}): Promise<ParsedFile> {
+  const { value: html } = await mammoth.convertToHtml({ buffer });
+  const tables = htmlTables(html)
+    .map(matrix => parseMatrix(matrix, source, options))
+    .filter(isUsable);
+  if (tables.length > 0) {
+    return {
+      layout: tables.some(t => t.layout === "grid") ? "grid" : "rows",
+      strategy: "docx-tables",
+      rows: tables.flatMap(t => t.rows),
+      unmappedColumns: [...new Set(tables.flatMap(t => t.unmappedColumns))],
+      columns: tables.find(t => t.columns.length > 0)?.columns || []
+    };
+  }
+  const { value: text } = await mammoth.extractRawText({ buffer });
+  return parseText(text, source, options);
+}
+
+// Split each line into cells: on tabs, on pipes for drawn tables
+// ("| Mon | P1 |"), or on runs of two or more spaces. Blank lines stay so
+// row numbers match the text.
+function splitLines(text: string): string[][] {
+  return text.split(/\r?\n/).map(line => {
+    const trimmed = line.trim();
+    if (!trimmed) return [];
+    if (trimmed.includes("\t")) return trimmed.split(/\t+/).map(c => c.trim());
+    if (/^\|.*\|$/.test(trimmed) || / \| /.test(trimmed)) {
+      return trimmed.replace(/^\||\|$/g, "").split("|").map(c => c.trim());
+    }
+    // An indented line starts with an empty cell, e.g. the corner of a grid header
+    const indented = /^\s{2,}/.test(line);
+    return [...(indented ? [""] : []), ...trimmed.split(/\s{2,}/)];
+  });
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Cell text with paragraphs and line breaks kept as new lines, which the grid
+// parser treats as a field separator
+function cellText(html: string): string {
+  const text = html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/p>/gi, "\n")
+    .replace(/<[^>]+>/g, "");
+  return decodeEntities(text)
+    .split("\n")
+    .map(l => l.trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Matrices of the <table> elements in mammoth's HTML. Cells spanning several
+// columns or rows repeat their text, like merged spreadsheet cells.
+export function htmlTables(html: string): string[][][] {
+  const tables = html.match(/<table[\s\S]*?<\/table>/gi) || [];
+  return tables.map(table => {
+    const matrix: string[][] = [];
+    const rows = table.match(/<tr[\s\S]*?<\/tr>/gi) || [];
+    rows.forEach((row, r) => {
+      matrix[r] = matrix[r] || [];
+      let c = 0;
+      for (const [, attrs, inner] of row.matchAll(/<t[dh]([^>]*)>([\s\S]*?)<\/t[dh]>/gi)) {
+        while (matrix[r][c] !== undefined) c++;
+        const colspan = Number(attrs.match(/colspan="(\d+)"/i)?.[1] || 1);
+        const rowspan = Number(attrs.match(/rowspan="(\d+)"/i)?.[1] || 1);
+        const text = cellText(inner);
+        for (let dr = 0; dr < rowspan; dr++) {
+          matrix[r + dr] = matrix[r + dr] || [];
+          for (let dc = 0; dc < colspan; dc++) matrix[r + dr][c + dc] = text;
+        }
+        c += colspan;
+      }
+    });
+    return Array.from(matrix, line => Array.from(line || [], cell => cell || ""));
+  });
+}
+
+export function parseTextTable(text: string, source: string): TimetableRow[] {
+  // Multi-line parser for vertical timetable format
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  // Find header positions
+  const headerIdx = lines.findIndex(l => l.toLowerCase() === "day");
+  if (headerIdx === -1) return [];
+  const fields = ["day", "period", "subject", "teacher", "group", "room"];
+  const rows: TimetableRow[] = [];
+  // Start after header
+  for (let i = headerIdx + fields.length; i + fields.length - 1 < lines.length; i += fields.length) {
+    const r: any = {};
+    for (let j = 0; j < fields.length; j++) {
+      r[fields[j]] = lines[i + j] || "";
+    }
+    r.sourceFile = source;
+    r.__row = (i - headerIdx) / fields.length;
+    rows.push(normalizeRow(r, source));
+  }
+  return rows;
+}
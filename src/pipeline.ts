@@ -0,0 +1,205 @@
+import JSZip from "jszip";
+import {
+  parseUploadedFilesWithDiagnostics,
+  withRejections,
+  formatDiagnostics,
+  FileDiagnostics,
+  ParseOptions,
+  TimetableRow,
+  FileError,
+  sourceKey
+} from "./parsers/index";
+import { parseConstraintsFile } from "./parsers/constraints";
+import { parseAliasesFile } from "./parsers/aliases";
+import { parseQualificationsFile } from "./parsers/qualifications";
+import { mergeAndResolve, formatConflicts, MergeOptions, MergeResult, ManualPlacement, changeReport } from "./solver/index";
+import { renderOutputs, OutputFile } from "./exporters/index";
+import { loadMapping, saveMapping } from "./storage/mappings";
+import { API_VERSION, ApiError, FileIssue, FileStats, ResolutionResponse } from "./contract";
+import { readUploadOptions } from "./routes/schemas";
+
+// Parse, resolve and render a set of timetable files. Shared by the upload,
+// job and project routes and by the CLI; files come in the shape multer
+// hands over, but nothing here depends on a request.
+
+// Optional files uploaded next to the timetables
+export type SupportFiles = {
+  constraints?: Express.Multer.File;
+  aliases?: Express.Multer.File;
+  qualifications?: Express.Multer.File;
+};
+
+// Request fields that shape a resolution. Projects store these and replay
+// them on every re-run.
+export const OPTION_FIELDS = [
+  "calendar", "groupHierarchy", "pinned", "filePriority", "rooms", "strategy", "seed", "timeBudgetMs",
+  "gridOptions", "columns", "fileColumns", "department", "sheets", "formats", "views", "termStart", "termEnd",
+  "normalizeNames", "preferences", "substitutes"
+];
+
+export function pickOptionFields(body: any): Record<string, string> {
+  // Refuse bad options before they are stored
+  readUploadOptions(body);
+  const picked: Record<string, string> = {};
+  for (const field of OPTION_FIELDS) {
+    const value = body?.[field];
+    if (value === undefined || value === "") continue;
+    picked[field] = typeof value === "string" ? value : JSON.stringify(value);
+  }
+  return picked;
+}
+
+// Solver options shared by every upload endpoint
+export async function readMergeOptions(body: any, support: SupportFiles = {}): Promise<MergeOptions> {
+  const options = readUploadOptions(body);
+  return {
+    constraints: await readSupportFile("constraints", support.constraints, parseConstraintsFile),
+    aliases: await readSupportFile("aliases", support.aliases, parseAliasesFile),
+    normalizeNames: options.normalizeNames,
+    preferences: options.preferences,
+    qualifications: await readSupportFile("qualifications", support.qualifications, parseQualificationsFile),
+    substitutes: options.substitutes,
+    calendar: options.calendar,
+    groupHierarchy: options.groupHierarchy,
+    pinned: options.pinned,
+    filePriority: options.filePriority,
+    rooms: options.rooms,
+    strategy: options.strategy || "optimal",
+    seed: options.seed,
+    timeBudgetMs: options.timeBudgetMs
+  };
+}
+
+// A support file that cannot be used fails the request, naming the file
+async function readSupportFile<T>(
+  field: FileIssue["field"],
+  file: Express.Multer.File | undefined,
+  parse: (file: Express.Multer.File) => Promise<T>
+): Promise<T | undefined> {
+  if (!file) return undefined;
+  try {
+    return await parse(file);
+  } catch (err: any) {
+    const code = err instanceof FileError ? err.code : err instanceof ApiError && err.status === 400 ? "invalid_content" : "parse_failed";
+    const message: string = err?.message || String(err);
+    throw new ApiError(400, "invalid_file", message, { files: [{ field, file: file.originalname, code, message }] });
+  }
+}
+
+// Column overrides come from the request, or else from the mapping the
+// department saved last time. saveMapping=true stores the request's mapping.
+export function readParseOptions(body: any): ParseOptions {
+  const { department, fileColumns, sheets, gridOptions, calendar, ...options } = readUploadOptions(body);
+  let columns = options.columns;
+  if (department && columns && options.saveMapping) {
+    saveMapping(department, columns);
+  }
+  if (department && !columns) columns = loadMapping(department)?.columns;
+  return { grid: gridOptions, columns, fileColumns, sheets, calendar };
+}
+
+export function fileStats(diagnostics: FileDiagnostics[], result: MergeResult): FileStats[] {
+  return diagnostics.map(({ file: name, sheet, parsed, error, errorCode, rowCount }) => {
+    const source = sourceKey({ sourceFile: name, sourceSheet: sheet });
+    const assignments = result.separatedTimetables.get(source) || [];
+    const fromSource = (row: TimetableRow) => sourceKey(row) === source;
+    return {
+      file: name,
+      sheet,
+      parsed,
+      error,
+      errorCode,
+      parsedRows: rowCount,
+      scheduledRows: assignments.length,
+      movedRows: result.moves.filter(m => fromSource(m.entry) && m.to).length,
+      unresolvedRows: result.moves.filter(m => fromSource(m.entry) && !m.to).length,
+      conflicts: result.conflicts.filter(c => c.conflictingEntries.some(fromSource)).length
+    };
+  });
+}
+
+// Everything one resolution produced, before it is sent anywhere
+export type ResolveRun = {
+  rows: TimetableRow[];
+  resolved: MergeResult;
+  diagnostics: FileDiagnostics[];
+};
+
+// Extra inputs for resolveFiles: lessons placed by hand, and a callback told
+// which step the run has reached
+export type ResolveExtras = {
+  manual?: ManualPlacement[];
+  onProgress?: (progress: { stage: "parsing"; file: number; files: number; name: string } | { stage: "solving" }) => void;
+};
+
+// Parse the files and resolve them together with the options in body
+export async function resolveFiles(
+  files: Express.Multer.File[],
+  body: any,
+  support: SupportFiles = {},
+  extras: ResolveExtras = {}
+): Promise<ResolveRun> {
+  const { manual, onProgress } = extras;
+  const options = { ...(await readMergeOptions(body, support)), manual };
+  const parsed = await parseUploadedFilesWithDiagnostics(files, readParseOptions(body), (index, file) =>
+    onProgress?.({ stage: "parsing", file: index + 1, files: files.length, name: file.originalname })
+  );
+  if (parsed.diagnostics.every(d => !d.parsed)) throw unreadableFiles(parsed.diagnostics);
+  onProgress?.({ stage: "solving" });
+  const resolved = mergeAndResolve(parsed.rows, options);
+  const diagnostics = withRejections(parsed.diagnostics, resolved.rejected);
+  return { rows: parsed.rows, resolved, diagnostics };
+}
+
+function unreadableFiles(diagnostics: FileDiagnostics[]): ApiError {
+  const message = (diagnostics.length === 1 && diagnostics[0].error) || "None of the timetable files could be read";
+  return new ApiError(400, "no_readable_files", message, {
+    files: diagnostics.map(d => ({ field: "files", file: d.file, code: d.errorCode || "parse_failed", message: d.error || "" }))
+  });
+}
+
+// Every requested export plus the diagnostics, identity and quality reports
+export async function runOutputs(run: ResolveRun, body: any): Promise<OutputFile[]> {
+  const { formats, views, calendar, groupHierarchy, termStart, termEnd } = readUploadOptions(body);
+  const outputs = await renderOutputs(run.resolved, { calendar, groupHierarchy, formats, views, ics: { termStart, termEnd } });
+  return [
+    ...outputs,
+    // Explain files or rows that did not make it into the timetables
+    { path: "diagnostics.json", content: JSON.stringify(run.diagnostics, null, 2) },
+    { path: "diagnostics.txt", content: formatDiagnostics(run.diagnostics) },
+    // Spellings merged into one name, and likely duplicates for the user to confirm
+    { path: "identities.json", content: JSON.stringify(run.resolved.identities, null, 2) },
+    // How well each timetable keeps to the soft preferences
+    { path: "quality.json", content: JSON.stringify(run.resolved.quality, null, 2) },
+    // Qualified cover for teachers left double-booked
+    { path: "substitutions.json", content: JSON.stringify(run.resolved.substitutions, null, 2) }
+  ];
+}
+
+// The download zip
+export async function buildZip(run: ResolveRun, body: any): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const output of await runOutputs(run, body)) zip.file(output.path, output.content);
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+// The resolution as JSON, as returned by /api/upload/analyze
+export function runToJson(run: ResolveRun): ResolutionResponse {
+  const { rows, resolved, diagnostics } = run;
+  return {
+    apiVersion: API_VERSION,
+    rows,
+    assignments: resolved.assignments,
+    separatedTimetables: Object.fromEntries(resolved.separatedTimetables),
+    moves: resolved.moves,
+    conflicts: resolved.conflicts,
+    conflictReport: formatConflicts(resolved.conflicts),
+    rejected: resolved.rejected,
+    changes: changeReport(resolved),
+    identities: resolved.identities,
+    quality: resolved.quality,
+    substitutions: resolved.substitutions,
+    files: fileStats(diagnostics, resolved),
+    diagnostics
+  };
+}
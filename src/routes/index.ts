@@ -1,7 +1,11 @@
 import { Router } from "express";
 import uploadRouter from "./upload";
+import projectsRouter from "./projects";
+import jobsRouter from "./jobs";
 
 const router = Router();
 router.use("/upload", uploadRouter);
+router.use("/projects", projectsRouter);
+router.use("/jobs", jobsRouter);
 
 export default router;
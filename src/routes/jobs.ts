@@ -0,0 +1,65 @@
+import { Router } from "express";
+import { submitJob, getJob, cancelJob, jobResult, jobZipPath } from "../jobs/index";
+import { resolveInWorker } from "../jobs/worker";
+import {
+  cleanupFiles,
+  noFilesError,
+  uploadFields,
+  supportFiles,
+  allUploads,
+  UploadedFiles
+} from "./resolve";
+import { versioned } from "../contract";
+
+const router = Router();
+
+// POST /api/jobs
+// Same inputs as /api/upload, but answers straight away with a job to poll.
+// The uploaded files are kept until the job has run. Each job runs on a
+// worker thread, so polling and cancelling answer while it works and a
+// cancel stops it at once. Limits: jobs still run one at a time, progress
+// inside the solve is reported only as "solving", and /api/upload itself
+// still solves on the server's main thread.
+router.post("/", uploadFields, (req, res) => {
+  const uploaded = (req.files || {}) as UploadedFiles;
+  const files = uploaded.files;
+  if (!files || files.length === 0) {
+    cleanupFiles(allUploads(uploaded));
+    throw noFilesError();
+  }
+
+  const body = { ...req.body };
+  const support = supportFiles(uploaded);
+  const job = submitJob(
+    control => resolveInWorker({ files, body, support }, control),
+    () => cleanupFiles(allUploads(uploaded))
+  );
+  return res.status(202).json(versioned(job));
+});
+
+// GET /api/jobs/:id
+// Status and progress: queued, then parsing file N of M, solving, rendering
+router.get("/:id", (req, res) => {
+  return res.json(versioned(getJob(req.params.id)));
+});
+
+// GET /api/jobs/:id/result
+// The resolution as JSON, in the shape /api/upload/analyze returns
+router.get("/:id/result", (req, res) => {
+  return res.json(jobResult(req.params.id));
+});
+
+// GET /api/jobs/:id/download
+router.get("/:id/download", (req, res) => {
+  const zipPath = jobZipPath(req.params.id);
+  res.set("Content-Type", "application/zip");
+  return res.download(zipPath, "resolved_timetables.zip");
+});
+
+// DELETE /api/jobs/:id
+// Cancels a queued or running job; for a finished job, removes its results
+router.delete("/:id", (req, res) => {
+  return res.json(versioned(cancelJob(req.params.id)));
+});
+
+export default router;
@@ -0,0 +1,222 @@
+import { Router } from "express";
+import {
+  Project,
+  createProject,
+  loadProject,
+  saveProject,
+  listProjects,
+  putSource,
+  putConstraints,
+  sourceFiles,
+  putAliases,
+  putQualifications,
+  projectSupportFiles,
+  putManualMoves,
+  addVersion,
+  versionResult,
+  versionZipPath
+} from "../storage/projects";
+import {
+  cleanupFiles,
+  noFilesError,
+  upload,
+  uploadFields,
+  supportFiles,
+  allUploads,
+  UploadedFiles
+} from "./resolve";
+import { resolveFiles, buildZip, runToJson, pickOptionFields, readMergeOptions, ResolveRun } from "../pipeline";
+import { readAdjustment, readFlag } from "./schemas";
+import { checkAdjustment, lessonKey, separateBySource } from "../solver/index";
+import { ApiError } from "../contract";
+
+const router = Router();
+
+// Resolve the project's current sources with its stored options and keep the
+// result as a new version
+async function runProject(project: Project, reason: string) {
+  if (project.sources.length === 0) {
+    throw noFilesError("Project has no source files");
+  }
+  const run = await resolveFiles(sourceFiles(project), project.options, projectSupportFiles(project), { manual: project.manualMoves });
+  return keepRun(project, reason, run);
+}
+
+async function keepRun(project: Project, reason: string, run: ResolveRun) {
+  const zip = await buildZip(run, project.options);
+  const result = runToJson(run);
+  return addVersion(project, reason, {
+    assignments: run.resolved.assignments.length,
+    moves: run.resolved.moves.length,
+    conflicts: run.resolved.conflicts.length,
+    rejected: run.resolved.rejected.length
+  }, result, zip);
+}
+
+function versionNumber(value: string): number {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new ApiError(400, "invalid_version", "Version must be a positive whole number");
+  }
+  return version;
+}
+
+// GET /api/projects
+router.get("/", (_req, res) => {
+  return res.json(listProjects());
+});
+
+// POST /api/projects
+// Multipart: "name", "files", optional "constraints", "aliases" and "qualifications" files and any option
+// field /api/upload accepts. The options are stored with the project and the
+// first version is resolved straight away.
+router.post("/", uploadFields, async (req, res) => {
+  const uploaded = (req.files || {}) as UploadedFiles;
+  const files = uploaded.files;
+  if (!files || files.length === 0) {
+    cleanupFiles(allUploads(uploaded));
+    throw noFilesError();
+  }
+
+  try {
+    const project = createProject(String(req.body.name || ""), pickOptionFields(req.body));
+    for (const file of files) putSource(project, file);
+    const { constraints, aliases, qualifications } = supportFiles(uploaded);
+    if (constraints) putConstraints(project, constraints);
+    if (aliases) putAliases(project, aliases);
+    if (qualifications) putQualifications(project, qualifications);
+    saveProject(project);
+    const version = await runProject(project, "created");
+    return res.status(201).json({ project, version });
+  } finally {
+    cleanupFiles(allUploads(uploaded));
+  }
+});
+
+// GET /api/projects/:id
+router.get("/:id", (req, res) => {
+  return res.json(loadProject(req.params.id));
+});
+
+// PUT /api/projects/:id/sources/:name
+// Multipart "file": replaces the source of that name (or adds it). Run the
+// project again to see the effect.
+router.put("/:id/sources/:name", upload.single("file"), async (req, res) => {
+  const file = req.file;
+  if (!file) throw noFilesError("No file uploaded");
+  try {
+    const project = loadProject(req.params.id);
+    const source = putSource(project, file, req.params.name);
+    saveProject(project);
+    return res.json({ project, source });
+  } finally {
+    cleanupFiles([file]);
+  }
+});
+
+// PUT /api/projects/:id/constraints
+// Multipart "constraints": replaces the project's constraints file
+router.put("/:id/constraints", upload.single("constraints"), async (req, res) => {
+  const file = req.file;
+  if (!file) throw noFilesError("No file uploaded");
+  try {
+    const project = loadProject(req.params.id);
+    const constraints = putConstraints(project, file);
+    saveProject(project);
+    return res.json({ project, constraints });
+  } finally {
+    cleanupFiles([file]);
+  }
+});
+
+// PUT /api/projects/:id/aliases
+// Multipart "aliases": replaces the project's alias dictionary
+router.put("/:id/aliases", upload.single("aliases"), async (req, res) => {
+  const file = req.file;
+  if (!file) throw noFilesError("No file uploaded");
+  try {
+    const project = loadProject(req.params.id);
+    const aliases = putAliases(project, file);
+    saveProject(project);
+    return res.json({ project, aliases });
+  } finally {
+    cleanupFiles([file]);
+  }
+});
+
+// PUT /api/projects/:id/qualifications
+// Multipart "qualifications": replaces the project's teacher qualification list
+router.put("/:id/qualifications", upload.single("qualifications"), async (req, res) => {
+  const file = req.file;
+  if (!file) throw noFilesError("No file uploaded");
+  try {
+    const project = loadProject(req.params.id);
+    const qualifications = putQualifications(project, file);
+    saveProject(project);
+    return res.json({ project, qualifications });
+  } finally {
+    cleanupFiles([file]);
+  }
+});
+
+// POST /api/projects/:id/runs
+// Re-runs mergeAndResolve on the current sources. Option fields in the body
+// replace the stored ones first, so later runs keep them.
+router.post("/:id/runs", async (req, res) => {
+  const project = loadProject(req.params.id);
+  project.options = { ...project.options, ...pickOptionFields(req.body) };
+  const version = await runProject(project, "re-run");
+  return res.status(201).json(version);
+});
+
+// GET /api/projects/:id/versions/:version
+// The stored resolution in the same shape /api/upload/analyze returns
+router.get("/:id/versions/:version", (req, res) => {
+  const project = loadProject(req.params.id);
+  return res.json(versionResult(project, versionNumber(req.params.version)));
+});
+
+// POST /api/projects/:id/versions/:version/adjustments
+// JSON body { action: "move", lesson, to: "Mon-P3", room? } or
+// { action: "swap", lessons: [a, b] }, lessons being indexes into the
+// version's assignments. Returns what the change would do; with apply: true
+// it is also saved as a new version and kept on later runs.
+router.post("/:id/versions/:version/adjustments", async (req, res) => {
+  const project = loadProject(req.params.id);
+  const stored = versionResult(project, versionNumber(req.params.version)) as ReturnType<typeof runToJson>;
+  const options = await readMergeOptions(project.options, projectSupportFiles(project));
+  const check = checkAdjustment(stored.assignments, readAdjustment(req.body), options);
+  if (!readFlag(req.body.apply, "apply")) {
+    return res.json(check);
+  }
+
+  // Earlier moves of the changed lessons are replaced by the manual ones
+  const changed = new Set(check.placements.map(p => p.lesson));
+  const run: ResolveRun = {
+    rows: stored.rows,
+    resolved: {
+      assignments: check.assignments,
+      conflicts: check.conflicts,
+      separatedTimetables: separateBySource(check.assignments),
+      moves: [...check.moves, ...stored.moves.filter(m => !changed.has(lessonKey(m.entry)))],
+      rejected: stored.rejected || [],
+      identities: stored.identities || { merged: [], suspected: [] },
+      quality: check.quality,
+      substitutions: stored.substitutions || []
+    },
+    diagnostics: stored.diagnostics
+  };
+  putManualMoves(project, check.placements);
+  const version = await keepRun(project, "manual adjustment", run);
+  return res.status(201).json({ ...check, version });
+});
+
+// GET /api/projects/:id/versions/:version/download
+router.get("/:id/versions/:version/download", (req, res) => {
+  const project = loadProject(req.params.id);
+  const version = versionNumber(req.params.version);
+  res.set("Content-Type", "application/zip");
+  return res.download(versionZipPath(project, version), `${project.name}_v${version}.zip`);
+});
+
+export default router;
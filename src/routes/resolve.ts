@@ -0,0 +1,51 @@
+import fs from "fs";
+import multer from "multer";
+import { config } from "../config";
+import { SupportFiles } from "../pipeline";
+import { ApiError } from "../contract";
+
+// Uploads go to the temp folder, within the configured count and size limits
+export const upload = multer({ dest: "/tmp/", limits: { fileSize: Math.floor(config.maxFileSizeMb * 1024 * 1024) } });
+export const uploadFields = upload.fields([
+  { name: "files", maxCount: config.maxFiles },
+  { name: "constraints", maxCount: 1 },
+  { name: "aliases", maxCount: 1 },
+  { name: "qualifications", maxCount: 1 }
+]);
+
+export type UploadedFiles = {
+  files?: Express.Multer.File[];
+  constraints?: Express.Multer.File[];
+  aliases?: Express.Multer.File[];
+  qualifications?: Express.Multer.File[];
+};
+
+// The constraints, aliases and qualifications files of an upload
+export function supportFiles(uploaded: UploadedFiles): SupportFiles {
+  return {
+    constraints: uploaded.constraints?.[0],
+    aliases: uploaded.aliases?.[0],
+    qualifications: uploaded.qualifications?.[0]
+  };
+}
+
+// Every file of an upload, for cleaning up
+export function allUploads(uploaded: UploadedFiles): Express.Multer.File[] {
+  return [
+    ...(uploaded.files || []),
+    ...(uploaded.constraints || []),
+    ...(uploaded.aliases || []),
+    ...(uploaded.qualifications || [])
+  ];
+}
+
+export function noFilesError(message = "No files uploaded"): ApiError {
+  return new ApiError(400, "no_files", message);
+}
+
+export function cleanupFiles(files: Express.Multer.File[]) {
+  files.forEach(file => {
+    try { fs.unlinkSync(file.path); } catch {}
+  });
+}
+
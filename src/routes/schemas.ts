@@ -0,0 +1,228 @@
+import { z } from "zod";
+import { COLUMN_FIELDS, ColumnField } from "../parsers/index";
+import { Adjustment, buildCalendar } from "../solver/index";
+import { parseLessonDate } from "../solver/weeks";
+import { EXPORT_FORMATS, VIEWS, ExportFormat, View } from "../exporters/index";
+import { ApiError, FieldIssue, FieldIssueCode } from "../contract";
+
+// Multipart requests carry every option as text: structured ones as JSON,
+// lists as JSON or comma-separated, and an empty field means "not given".
+// The schemas below read the text and check the value in one go.
+
+function given(value: unknown): unknown {
+  return value === "" || value === null ? undefined : value;
+}
+
+function json<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess((value, ctx) => {
+    value = given(value);
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "must be valid JSON", params: { code: "invalid_json" } });
+      return z.NEVER;
+    }
+  }, schema.optional());
+}
+
+function list<T extends z.ZodTypeAny>(item: T, lowercase = false) {
+  return z.preprocess((value, ctx) => {
+    value = given(value);
+    if (typeof value !== "string") return value;
+    if (!value.trim().startsWith("[")) return value.split(",");
+    try {
+      return JSON.parse(value);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "must be valid JSON", params: { code: "invalid_json" } });
+      return z.NEVER;
+    }
+  }, z.array(z.string().transform(s => (lowercase ? s.trim().toLowerCase() : s.trim())))
+    .transform(items => [...new Set(items.filter(Boolean))])
+    .pipe(z.array(item))
+    .optional());
+}
+
+function text<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(given, schema.optional());
+}
+
+const names = z.array(z.string());
+
+const period = z.union([
+  z.string(),
+  z.object({
+    id: z.string().optional(),
+    name: z.string().optional(),
+    label: z.string().optional(),
+    start: z.string().optional(),
+    end: z.string().optional()
+  }).strict()
+]);
+
+const count = z.number().int().positive();
+
+const calendar = z.object({
+  days: z.array(z.union([
+    z.string(),
+    z.object({
+      day: z.string().optional(),
+      name: z.string().optional(),
+      periods: z.union([count, z.array(period)]).optional()
+    }).strict()
+  ])).optional(),
+  periodsPerDay: count.optional(),
+  periods: z.array(period).optional(),
+  blocked: z.array(z.union([
+    z.string(),
+    z.object({ day: z.string().optional(), period: z.string().optional() }).strict()
+  ])).optional(),
+  bellSchedule: z.array(z.string()).optional()
+}).strict();
+
+const pinRule = z.object({
+  sourceFile: z.string().optional(),
+  sourceSheet: z.string().optional(),
+  subject: z.string().optional(),
+  teacher: z.string().optional(),
+  group: z.string().optional(),
+  room: z.string().optional(),
+  day: z.string().optional(),
+  period: z.string().optional()
+}).strict();
+
+const columnMapping = z.record(z.enum(COLUMN_FIELDS as [ColumnField, ...ColumnField[]]), z.string());
+
+const periods = z.number().int().min(0, "must be a whole number of periods");
+
+// A day that exists, so 2026-02-30 is refused rather than read as March 2
+const DATE_FORMAT = /^\d{4}-\d{2}-\d{2}$/;
+const date = z.string()
+  .regex(DATE_FORMAT, "must be a date in YYYY-MM-DD format")
+  .refine(value => !DATE_FORMAT.test(value) || parseLessonDate(value) === value, {
+    message: "is not a date in the calendar",
+    params: { code: "invalid_format" }
+  });
+
+export const uploadOptionsSchema = z.object({
+  // Checked by building it, so bad days or bell times are reported against the field
+  calendar: json(calendar).transform((input, ctx) => {
+    try {
+      return buildCalendar(input);
+    } catch (err: any) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: err.message, params: { code: "invalid_calendar" } });
+      return z.NEVER;
+    }
+  }),
+  groupHierarchy: json(z.record(names)),
+  pinned: json(z.array(pinRule)),
+  filePriority: json(names),
+  rooms: json(names),
+  strategy: text(z.enum(["optimal", "greedy"])),
+  seed: json(z.number().int()),
+  timeBudgetMs: json(z.number().positive()),
+  gridOptions: json(z.object({
+    separators: z.array(z.string()).optional(),
+    fields: z.array(z.enum(["subject", "teacher", "room", "group"])).optional()
+  }).strict()),
+  columns: json(columnMapping),
+  fileColumns: json(z.record(columnMapping)),
+  department: text(z.string().trim()).transform(d => d || undefined),
+  saveMapping: json(z.boolean()),
+  sheets: list(z.string()),
+  formats: list(z.enum(EXPORT_FORMATS as [ExportFormat, ...ExportFormat[]]), true),
+  views: list(z.enum(VIEWS as [View, ...View[]]), true),
+  termStart: text(date),
+  termEnd: text(date),
+  normalizeNames: json(z.boolean()),
+  preferences: json(z.object({
+    maxTeacherPeriodsPerDay: periods.optional(),
+    maxConsecutivePeriods: periods.optional(),
+    maxStudentGap: periods.optional(),
+    spreadSubjects: z.boolean().optional()
+  }).strict()),
+  substitutes: text(z.enum(["suggest", "apply"]))
+});
+
+export type UploadOptions = z.infer<typeof uploadOptionsSchema>;
+
+// JSON support files. Every key may be left out; unknown keys are refused so
+// a misspelt one is not silently ignored.
+const seats = z.number().nonnegative();
+
+export const constraintsFileSchema = z.object({
+  teacherUnavailable: z.record(names).default({}),
+  roomCapacity: z.record(seats).default({}),
+  groupSize: z.record(seats).default({}),
+  roomFeatures: z.record(names).default({}),
+  subjectRequirements: z.record(names).default({})
+}).strict();
+
+export const aliasesFileSchema = z.object({
+  teacher: z.record(z.string()).optional(),
+  room: z.record(z.string()).optional(),
+  group: z.record(z.string()).optional()
+}).strict();
+
+export const qualificationsFileSchema = z.record(names);
+
+// One line per problem, e.g. 'roomFeatures.Lab 2: Expected array, received string'
+export function describeIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join(".") || "file"}: ${issue.message}`).join("; ");
+}
+
+// The request's options, checked; every field that fails is reported at once
+export function readUploadOptions(body: any): UploadOptions {
+  const result = uploadOptionsSchema.safeParse(body || {});
+  if (result.success) return result.data;
+  throw invalidOptions(result.error);
+}
+
+// Body of POST /api/projects/:id/versions/:version/adjustments; lessons are
+// indexes into the version's assignments
+const lessonIndex = z.number().int().nonnegative();
+
+const adjustmentSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("move"), lesson: lessonIndex, to: z.string().min(1), room: z.string().optional() }),
+  z.object({ action: z.literal("swap"), lessons: z.tuple([lessonIndex, lessonIndex]) })
+]);
+
+export function readAdjustment(body: unknown): Adjustment {
+  const result = adjustmentSchema.safeParse(body);
+  if (result.success) return result.data;
+  throw invalidOptions(result.error);
+}
+
+// A true/false field outside the upload options, e.g. "apply"
+export function readFlag(value: unknown, field: string): boolean {
+  const result = z.object({ [field]: json(z.boolean()) }).safeParse({ [field]: value });
+  if (result.success) return !!result.data[field];
+  throw invalidOptions(result.error);
+}
+
+function issueCode(issue: z.ZodIssue): FieldIssueCode {
+  switch (issue.code) {
+    case "custom": return issue.params?.code || "invalid_value";
+    case "invalid_type": return "invalid_type";
+    case "too_small":
+    case "too_big":
+    case "not_multiple_of": return "out_of_range";
+    case "invalid_string":
+    case "invalid_date": return "invalid_format";
+    case "unrecognized_keys": return "unknown_key";
+    default: return "invalid_value";
+  }
+}
+
+function invalidOptions(error: z.ZodError): ApiError {
+  // Text that is not JSON says all there is to say about its field
+  const unreadable = new Set(error.issues.filter(i => issueCode(i) === "invalid_json").map(i => i.path.join(".")));
+  const issues = error.issues.filter(i => issueCode(i) === "invalid_json" || !unreadable.has(i.path.join(".")));
+  const fields: FieldIssue[] = issues.map(issue => {
+    const field = String(issue.path[0] ?? "");
+    const path = issue.path.join(".");
+    const where = path === field ? `Field "${field}"` : `Field "${field}" (${path})`;
+    return { field, path, code: issueCode(issue), message: `${where}: ${issue.message}` };
+  });
+  return new ApiError(400, "invalid_options", fields.map(f => f.message).join("; "), { fields });
+}
@@ -1,64 +1,145 @@
-import JSZip from "jszip";
 import { Router } from "express";
-import multer from "multer";
-import path from "path";
-import { parseUploadedFiles, TimetableRow, parseTextTable } from "../parsers/index";
-import { mergeAndResolve, assignmentsToDocx } from "../solver/index";
-import fs from "fs";
+import { previewUploadedFiles } from "../parsers/index";
+import { loadMapping, saveMapping } from "../storage/mappings";
+import {
+  cleanupFiles,
+  noFilesError,
+  uploadFields,
+  supportFiles,
+  allUploads,
+  UploadedFiles
+} from "./resolve";
+import { resolveFiles, buildZip, runToJson, readParseOptions } from "../pipeline";
+import { API_VERSION, ApiError, PreviewResponse, versioned } from "../contract";
 
 const router = Router();
-const upload = multer({ dest: "/tmp/" });
 
 // POST /api/upload
-// Accepts multiple files (pdf/docx/xlsx/csv)
-router.post("/", upload.array("files", 10), async (req, res) => {
-  const files = req.files as Express.Multer.File[] | undefined;
-  if (!files || files.length === 0) return res.status(400).json({ error: "No files uploaded" });
+// Accepts multiple files (pdf/docx/xlsx/xls/csv), up to UNISYNC_MAX_FILES files of
+// UNISYNC_MAX_FILE_MB each; the zip includes a per-file diagnostics report.
+// Files are read by what they contain, not by their extension.
+// Large uploads can go to /api/jobs instead, which runs them in the background.
+// Optional JSON fields:
+//   calendar: calendar definition (days, periods, blocked slots, bellSchedule for clock-time periods)
+//   groupHierarchy: parent group -> subgroups, e.g. { "CS": ["CS1", "CS2"] }
+//   pinned: rules for rows that must never move, e.g. [{ "subject": "Exam" }]
+//   filePriority: file names (or "file.xlsx (Sheet)"), highest priority first; lower-priority lessons move first
+//   rooms: room catalogue offered when a room clash can be fixed by changing room
+//   preferences: soft limits, e.g. { "maxTeacherPeriodsPerDay": 5, "maxConsecutivePeriods": 3,
+//     "maxStudentGap": 1, "spreadSubjects": true }; lessons that must move go where they break
+//     the fewest, and "quality" scores each timetable against them (100 = all kept)
+//   gridOptions: how to split grid cells, e.g. { "separators": ["/"], "fields": ["subject", "teacher", "room"] }
+//   columns: field -> header overrides, e.g. { "teacher": "Lecturer Name", "room": "Hall" }
+//   fileColumns: the same per file name, e.g. { "cs.xlsx": { "subject": "Course Code" } },
+//     or per workbook sheet, e.g. { "cs.xlsx (Level 100)": { ... } }
+// Timetable files may have Weeks ("A", "B", "1-6", "1, 3, 5-8"), Start Date and End Date
+//   columns for lessons that do not run every week; such lessons only clash when their weeks overlap
+// Optional "constraints" file (CSV/XLSX/JSON): teacher availability, room capacity and features
+// Optional "aliases" file (CSV/XLSX/JSON): preferred names for teachers, rooms and groups
+//   spelled differently across files; see the "identities" report for suspected duplicates
+// Optional "qualifications" file (CSV/XLSX/JSON): teacher -> subjects they can teach; teachers
+//   left double-booked get qualified, free substitutes, least loaded first (see "substitutions")
+// Optional plain fields: strategy ("optimal" | "greedy"), seed, timeBudgetMs,
+//   substitutes: "suggest" (default) to list substitutes, or "apply" to hand each lesson to the first
+//   normalizeNames: "false" to match names exactly instead of ignoring case, spaces and
+//     punctuation, and teachers' titles and initials where every spelling can be one person
+//     ("Dr. A. Bello", "Bello A", "ABELLO"); names that may still be one are listed as suspected
+//   department: reuse the column mapping saved for this department
+//   saveMapping: "true" to save "columns" for the department
+//   sheets: workbook sheets to read, e.g. "Level 100,Level 200" (default every sheet with content)
+//   formats: any of "docx", "xlsx", "csv", "ics", "html" (default "docx")
+//   views: any of "source", "teacher", "room", "group" for docx/html grids (default "source")
+//   termStart / termEnd: YYYY-MM-DD range for the recurring .ics events
+// JSON answers follow the versioned contract in src/contract.ts. Errors are
+//   { apiVersion, error, code, status, fields?, files? }: invalid_options lists each bad field
+//   with its own code, invalid_file the support file that could not be used, and
+//   no_readable_files every timetable file when none could be read. Files that fail while
+//   others succeed are reported in the diagnostics with an errorCode instead.
+router.post("/", uploadFields, async (req, res) => {
+  const uploaded = (req.files || {}) as UploadedFiles;
+  const files = uploaded.files;
+  if (!files || files.length === 0) {
+    cleanupFiles(allUploads(uploaded));
+    throw noFilesError();
+  }
 
-  const zip = new JSZip();
-  let allParsed: TimetableRow[] = [];
-  for (const file of files) {
-    let parsed: TimetableRow[] = [];
-    try {
-      const ext = path.extname(file.originalname).toLowerCase();
-      if (ext === ".docx" || ext === ".doc") {
-        const buffer = fs.readFileSync(file.path);
-        // For .docx, use mammoth; for .doc, treat as text
-        if (ext === ".docx") {
-          const result = await require("mammoth").extractRawText({ buffer });
-          parsed = parseTextTable(result.value, file.originalname);
-        } else {
-          const content = fs.readFileSync(file.path, "utf8");
-          parsed = parseTextTable(content, file.originalname);
-        }
-      } else {
-        parsed = await parseUploadedFiles([file]);
-      }
-    } catch (err) {
-      // skip errors, do not add to zip
-    }
-    allParsed = allParsed.concat(parsed);
+  try {
+    // Resolve all timetables together
+    const run = await resolveFiles(files, req.body, supportFiles(uploaded));
+    const zipBuffer = await buildZip(run, req.body);
+    res.set({
+      "Content-Type": "application/zip",
+      "Content-Disposition": "attachment; filename=resolved_timetables.zip"
+    });
+    return res.send(zipBuffer);
+  } finally {
+    // Clean up uploaded files after reading
+    cleanupFiles(allUploads(uploaded));
   }
+});
 
-  // Resolve all timetables together
-  const resolved = mergeAndResolve(allParsed);
+// POST /api/upload/analyze
+// Same inputs as /api/upload, but returns the full resolution as JSON so it can
+// be reviewed before anything is downloaded
+router.post("/analyze", uploadFields, async (req, res) => {
+  const uploaded = (req.files || {}) as UploadedFiles;
+  const files = uploaded.files;
+  if (!files || files.length === 0) {
+    cleanupFiles(allUploads(uploaded));
+    throw noFilesError();
+  }
 
-  // Only add resolved .docx files to the zip
-  for (const [sourceFile, assignments] of resolved.separatedTimetables.entries()) {
-    const docxBuffer = await assignmentsToDocx(assignments, sourceFile);
-    zip.file(`resolved_${sourceFile.replace(/\.[^/.]+$/, "")}.docx`, docxBuffer);
+  try {
+    const run = await resolveFiles(files, req.body, supportFiles(uploaded));
+    return res.json(runToJson(run));
+  } finally {
+    cleanupFiles(allUploads(uploaded));
   }
+});
 
-  const zipBuffer = await zip.generateAsync({ type: "nodebuffer" });
-  res.set({
-    "Content-Type": "application/zip",
-    "Content-Disposition": "attachment; filename=resolved_timetables.zip"
-  });
-  // Clean up uploaded files after reading
-  files.forEach(file => {
-    try { fs.unlinkSync(file.path); } catch {}
-  });
-  return res.send(zipBuffer);
+// POST /api/upload/preview
+// Accepts the same files and parse fields as /api/upload and returns, per
+// file, how each header column was matched (with confidence and example
+// values) and the first few rows it would produce. Nothing is resolved.
+router.post("/preview", uploadFields, async (req, res) => {
+  const uploaded = (req.files || {}) as UploadedFiles;
+  const files = uploaded.files;
+  if (!files || files.length === 0) {
+    cleanupFiles(allUploads(uploaded));
+    throw noFilesError();
+  }
+
+  try {
+    const department = typeof req.body.department === "string" ? req.body.department.trim() : "";
+    const previews = await previewUploadedFiles(files, readParseOptions(req.body));
+    const response: PreviewResponse = {
+      apiVersion: API_VERSION,
+      files: previews,
+      savedMapping: department ? loadMapping(department) || null : null
+    };
+    return res.json(response);
+  } finally {
+    cleanupFiles(allUploads(uploaded));
+  }
+});
+
+// GET /api/upload/mappings/:department
+router.get("/mappings/:department", (req, res) => {
+  const saved = loadMapping(req.params.department);
+  if (!saved) {
+    throw new ApiError(404, "not_found", "No mapping saved for this department");
+  }
+  return res.json(versioned(saved));
+});
+
+// PUT /api/upload/mappings/:department
+// JSON body: { "columns": { "teacher": "Lecturer Name", ... } }
+router.put("/mappings/:department", (req, res) => {
+  const columns = req.body?.columns;
+  if (!columns || typeof columns !== "object" || Array.isArray(columns)) {
+    throw new ApiError(400, "invalid_columns", "Body must contain a \"columns\" object");
+  }
+  return res.json(versioned(saveMapping(req.params.department, columns)));
 });
 
 export default router;
@@ -0,0 +1,61 @@
+import type { TimetableRow } from "../parsers";
+import type { ConstraintViolation } from "./constraints";
+import type { CanonicalNames } from "./identity";
+
+// A row after room reassignment; assignedRoom is set only when the room
+// changed, assignedTeacher only when a substitute covers the lesson.
+// manualSlot is where a coordinator placed the lesson by hand, and canonical
+// holds the names it was resolved under when they differ from the upload's
+// spelling.
+export type PlannedRow = TimetableRow & {
+  assignedRoom?: string;
+  assignedTeacher?: string;
+  manualSlot?: string;
+  canonical?: CanonicalNames;
+};
+
+// assignedSlot is where the lesson starts; assignedSlots lists every slot it
+// covers, more than one for double periods such as "P3-P4" or "09:00-11:00"
+export type Assignment = PlannedRow & { assignedSlot: string; assignedSlots: string[] };
+
+export type Conflict = {
+  type: 'teacher' | 'room' | 'group' | ConstraintViolation['type'];
+  slot: string;
+  conflictingEntries: Assignment[];
+  resource: string; // teacher name, room name, or group name
+  detail?: string; // set for constraint violations
+  hard?: boolean; // two or more locked lessons clash, nothing was moved
+};
+
+// A lesson the resolver had to move (or failed to move) away from its original slot
+export type Move = {
+  entry: Assignment;
+  from: string;
+  to: string | null; // null when no alternative slot was found
+  reason: string;
+  cause?: { type: Conflict['type']; resource: string; slot?: string }; // slot: period of the clash, for multi-period lessons
+  roomChange?: { from: string; to: string }; // set when the lesson changed room, in its own slot or a new one
+  teacherChange?: { from: string; to: string }; // set when a substitute took the lesson
+  clashWith?: Assignment; // the lesson already holding the resource in cause
+  manual?: boolean; // placed by hand rather than by the solver
+};
+
+// The room a lesson actually uses, after any reassignment
+export function effectiveRoom(row: PlannedRow): string {
+  return (row.assignedRoom || row.room || "").trim();
+}
+
+// Room for display: the new room with the original next to it
+export function roomText(row: PlannedRow): string {
+  return row.assignedRoom ? `${row.assignedRoom} (was ${row.room || "none"})` : row.room || "";
+}
+
+// The teacher actually teaching a lesson, after any substitution
+export function effectiveTeacher(row: PlannedRow): string {
+  return (row.assignedTeacher || row.teacher || "").trim();
+}
+
+// Teacher for display: the substitute with the teacher they cover for
+export function teacherText(row: PlannedRow): string {
+  return row.assignedTeacher ? `${row.assignedTeacher} (covering for ${row.teacher || "none"})` : row.teacher || "";
+}
@@ -0,0 +1,319 @@
+import { ApiError } from "../contract";
+
+export type CalendarPeriod = {
+  id: string; // e.g., P1
+  label?: string; // e.g., "Morning Lecture"
+  start?: string; // e.g., 08:00
+  end?: string; // e.g., 09:00
+};
+
+export type CalendarDay = {
+  id: string; // e.g., Mon
+  periods: CalendarPeriod[];
+};
+
+export type SchoolCalendar = {
+  days: CalendarDay[];
+  blocked: Set<string>; // slot keys such as "Mon-P4"
+};
+
+// Shape accepted from upload requests. Everything is optional and falls back
+// to the classic Mon–Fri, six period week.
+export type PeriodInput = string | { id?: string; name?: string; label?: string; start?: string; end?: string };
+
+export type CalendarInput = {
+  days?: (string | { day?: string; name?: string; periods?: number | PeriodInput[] })[];
+  periodsPerDay?: number;
+  periods?: PeriodInput[];
+  blocked?: (string | { day?: string; period?: string })[]; // "Mon-P4", "*-P4", "Wed-*"
+  bellSchedule?: string[]; // clock times by position, e.g. ["08:00-09:00", "09:00-10:00"], for periods without their own
+};
+
+const DAY_ALIASES: Record<string, string> = {
+  'monday': 'Mon',
+  'tuesday': 'Tue',
+  'wednesday': 'Wed',
+  'thursday': 'Thu',
+  'friday': 'Fri',
+  'saturday': 'Sat',
+  'sunday': 'Sun',
+  'mon': 'Mon',
+  'tue': 'Tue',
+  'tues': 'Tue',
+  'wed': 'Wed',
+  'thu': 'Thu',
+  'thur': 'Thu',
+  'thurs': 'Thu',
+  'fri': 'Fri',
+  'sat': 'Sat',
+  'sun': 'Sun'
+};
+
+export const DEFAULT_CALENDAR: SchoolCalendar = buildCalendar();
+
+export function buildCalendar(input: CalendarInput = {}): SchoolCalendar {
+  const defaultPeriods = buildPeriods(input.periods ?? input.periodsPerDay ?? 6);
+  const dayInputs = input.days && input.days.length > 0 ? input.days : ["Mon", "Tue", "Wed", "Thu", "Fri"];
+
+  const days: CalendarDay[] = dayInputs.map(d => {
+    if (typeof d === "string") {
+      return { id: canonicalDayName(d), periods: defaultPeriods };
+    }
+    const name = d.day || d.name || "";
+    if (!name.trim()) throw calendarError("Calendar day entries need a name");
+    return {
+      id: canonicalDayName(name),
+      periods: d.periods === undefined ? defaultPeriods : buildPeriods(d.periods)
+    };
+  });
+
+  if (input.bellSchedule) {
+    const bells = input.bellSchedule.map(parseBell);
+    for (const day of days) {
+      day.periods = day.periods.map((p, i) => bells[i] && !p.start ? { ...p, ...bells[i] } : p);
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const day of days) {
+    if (seen.has(day.id)) throw calendarError(`Day ${day.id} is listed more than once`);
+    seen.add(day.id);
+  }
+
+  const blocked = new Set<string>();
+  for (const b of input.blocked || []) {
+    const pattern = typeof b === "string" ? b : `${b.day || "*"}-${b.period || "*"}`;
+    for (const slot of expandSlotPattern(pattern, { days, blocked })) blocked.add(slot);
+  }
+
+  return { days, blocked };
+}
+
+function buildPeriods(spec: number | PeriodInput[]): CalendarPeriod[] {
+  if (typeof spec === "number") {
+    if (!Number.isInteger(spec) || spec < 1) throw calendarError("Periods per day must be a positive integer");
+    return Array.from({ length: spec }, (_, i) => ({ id: `P${i + 1}` }));
+  }
+  if (spec.length === 0) throw calendarError("A calendar day needs at least one period");
+  return spec.map((p, i) => {
+    if (typeof p === "string") return { id: `P${i + 1}`, label: p };
+    return {
+      id: p.id || `P${i + 1}`,
+      label: p.label || p.name,
+      start: p.start,
+      end: p.end
+    };
+  });
+}
+
+function parseBell(text: string): { start: string; end: string } {
+  const [from, to] = String(text).split(/\s*[-–]\s*/);
+  const start = parseClock(from || "");
+  const end = parseClock(to || "");
+  if (start === undefined || end === undefined || end <= start) {
+    throw calendarError(`Bell schedule entry "${text}" must look like 08:00-09:00`);
+  }
+  return { start: formatClock(start), end: formatClock(end) };
+}
+
+function calendarError(message: string): ApiError {
+  return new ApiError(400, "invalid_calendar", `Invalid calendar: ${message}`);
+}
+
+function canonicalDayName(day: string): string {
+  const trimmed = day.trim();
+  return DAY_ALIASES[trimmed.toLowerCase()] || trimmed;
+}
+
+// Whether text names a weekday, e.g. "Mon" or "Wednesday"
+export function isWeekdayName(text: string): boolean {
+  return Object.prototype.hasOwnProperty.call(DAY_ALIASES, text.trim().toLowerCase());
+}
+
+export function normalizeDay(day: string, calendar: SchoolCalendar = DEFAULT_CALENDAR): string {
+  const candidate = canonicalDayName(day);
+  const match = calendar.days.find(d => d.id.toLowerCase() === candidate.toLowerCase());
+  return match ? match.id : "";
+}
+
+// First period of the lesson; see periodSpan for lessons over several periods
+export function normalizePeriod(period: string, day: string, calendar: SchoolCalendar = DEFAULT_CALENDAR): string {
+  return periodSpan(period, day, calendar)[0] || "";
+}
+
+// Minutes after midnight for "09:00", "9.30", "0900" or "2pm"
+export function parseClock(text: string): number | undefined {
+  const match = text.trim().toLowerCase().match(/^(\d{1,2})(?:[:.h]?(\d{2}))?\s*(am|pm)?$/);
+  if (!match || (!match[2] && !match[3])) return undefined;
+  let hours = +match[1];
+  const minutes = +(match[2] || 0);
+  if (match[3] === "pm" && hours < 12) hours += 12;
+  if (match[3] === "am" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return undefined;
+  return hours * 60 + minutes;
+}
+
+function formatClock(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+// Clock times of the period at index on a day, in minutes. Periods without
+// times are taken to be hourly from 08:00.
+export function periodTimes(day: CalendarDay, index: number): { start: number; end: number } {
+  const period = day.periods[index];
+  const start = parseClock(period?.start || "") ?? 8 * 60 + index * 60;
+  const end = parseClock(period?.end || "") ?? start + 60;
+  return { start, end };
+}
+
+// Period ids a lesson occupies: one for "P3", several consecutive ones for
+// "P3-P4", "Period 3-4" or a clock range such as "09:00-11:00", which covers
+// every period overlapping it. Empty when the text matches no period.
+export function periodSpan(period: string, day: string, calendar: SchoolCalendar = DEFAULT_CALENDAR): string[] {
+  const calendarDay = calendar.days.find(d => d.id === day);
+  if (!calendarDay) return [];
+  const single = matchPeriod(period, calendarDay);
+  if (single) return [single];
+
+  const ids = calendarDay.periods.map(p => p.id);
+  // A single clock time names the period running at that time
+  const at = parseClock(period);
+  if (at !== undefined) {
+    return ids.filter((_, i) => periodTimes(calendarDay, i).start <= at && periodTimes(calendarDay, i).end > at).slice(0, 1);
+  }
+
+  const parts = period.trim().split(/\s*(?:[-–]|\bto\b)\s*/i);
+  if (parts.length !== 2 || !parts[0] || !parts[1]) return [];
+
+  const from = parseClock(parts[0]);
+  const to = parseClock(parts[1]);
+  if (from !== undefined && to !== undefined) {
+    if (to <= from) return [];
+    return ids.filter((_, i) => {
+      const times = periodTimes(calendarDay, i);
+      return times.start < to && times.end > from;
+    });
+  }
+
+  // "Period 3-4" carries the prefix on the first number only
+  const first = ids.indexOf(matchPeriod(parts[0], calendarDay));
+  const last = ids.indexOf(matchPeriod(parts[1], calendarDay));
+  if (first === -1 || last === -1 || last < first) return [];
+  return ids.slice(first, last + 1);
+}
+
+// Slots covered by a lesson of `length` periods starting at slot, or null
+// when it would run past the end of the day
+export function spanSlots(slot: string, length: number, calendar: SchoolCalendar = DEFAULT_CALENDAR): string[] | null {
+  const position = slotPosition(slot, calendar);
+  if (!position) return null;
+  const day = calendar.days[position[0]];
+  const periods = day.periods.slice(position[1], position[1] + Math.max(1, length));
+  if (periods.length < Math.max(1, length)) return null;
+  return periods.map(p => `${day.id}-${p.id}`);
+}
+
+// "P3" or "P3-P4" for the slots of one lesson
+export function formatPeriodRange(slots: string[]): string {
+  const first = splitSlot(slots[0] || "")[1];
+  const last = splitSlot(slots[slots.length - 1] || "")[1];
+  return slots.length > 1 ? `${first}-${last}` : first;
+}
+
+function matchPeriod(period: string, day: CalendarDay): string {
+  const value = period.replace(/^period\s*/i, "P").trim();
+  if (!value) return "";
+  const lower = value.toLowerCase();
+
+  // Exact id, label or start time match first
+  const direct = day.periods.find(p =>
+    p.id.toLowerCase() === lower ||
+    (p.label && p.label.toLowerCase() === lower) ||
+    (p.start && p.start === value)
+  );
+  if (direct) return direct.id;
+
+  // Handle various period formats: "Period 1", "P1", "1", etc.
+  const periodMatch = value.match(/^p?\s*(\d+)$/i);
+  if (periodMatch) {
+    const index = parseInt(periodMatch[1]) - 1;
+    if (index >= 0 && index < day.periods.length) return day.periods[index].id;
+  }
+
+  return "";
+}
+
+// Expand "Mon-P4", "*-P4" or "Wed-*" into the matching slot keys
+export function expandSlotPattern(pattern: string, calendar: SchoolCalendar = DEFAULT_CALENDAR): string[] {
+  const [dayPart, periodPart] = pattern.includes('-')
+    ? splitSlot(pattern).map(s => s.trim())
+    : [pattern.trim(), "*"];
+  const slots: string[] = [];
+  for (const day of calendar.days) {
+    if (dayPart !== "*" && canonicalDayName(dayPart).toLowerCase() !== day.id.toLowerCase()) continue;
+    for (const period of day.periods) {
+      if (periodPart !== "*" && matchPeriod(periodPart, day) !== period.id) continue;
+      slots.push(`${day.id}-${period.id}`);
+    }
+  }
+  return slots;
+}
+
+// All slot keys in calendar order (day by day, period by period)
+export function calendarSlots(calendar: SchoolCalendar = DEFAULT_CALENDAR): string[] {
+  const slots: string[] = [];
+  for (const day of calendar.days) {
+    for (const period of day.periods) slots.push(`${day.id}-${period.id}`);
+  }
+  return slots;
+}
+
+export function isSchedulableSlot(slot: string, calendar: SchoolCalendar = DEFAULT_CALENDAR): boolean {
+  if (calendar.blocked.has(slot)) return false;
+  const [day, period] = splitSlot(slot);
+  const calendarDay = calendar.days.find(d => d.id === day);
+  return !!calendarDay && calendarDay.periods.some(p => p.id === period);
+}
+
+export function splitSlot(slot: string): [string, string] {
+  const idx = slot.lastIndexOf('-');
+  if (idx === -1) return [slot, ""];
+  return [slot.slice(0, idx), slot.slice(idx + 1)];
+}
+
+export function periodLabel(period: CalendarPeriod): string {
+  const name = period.label || period.id;
+  if (period.start && period.end) return `${name} (${period.start}-${period.end})`;
+  if (period.start) return `${name} (${period.start})`;
+  return name;
+}
+
+export function maxPeriods(calendar: SchoolCalendar = DEFAULT_CALENDAR): number {
+  return Math.max(0, ...calendar.days.map(d => d.periods.length));
+}
+
+// Position of a slot in the week as [day index, period index], or null if unknown
+export function slotPosition(slot: string, calendar: SchoolCalendar = DEFAULT_CALENDAR): [number, number] | null {
+  const [day, period] = splitSlot(slot);
+  const dayIndex = calendar.days.findIndex(d => d.id === day);
+  if (dayIndex === -1) return null;
+  const periodIndex = calendar.days[dayIndex].periods.findIndex(p => p.id === period);
+  return periodIndex === -1 ? null : [dayIndex, periodIndex];
+}
+
+// How far a lesson travels between two slots; moving to another day always
+// costs more than moving within the same day
+export function slotDistance(from: string, to: string, calendar: SchoolCalendar = DEFAULT_CALENDAR): number {
+  const a = slotPosition(from, calendar);
+  const b = slotPosition(to, calendar);
+  if (!a || !b) return Number.MAX_SAFE_INTEGER;
+  return Math.abs(a[0] - b[0]) * (maxPeriods(calendar) + 1) + Math.abs(a[1] - b[1]);
+}
+
+// Sort comparator putting slots in calendar order; unknown slots go last
+export function compareSlots(a: string, b: string, calendar: SchoolCalendar = DEFAULT_CALENDAR): number {
+  const pa = slotPosition(a, calendar);
+  const pb = slotPosition(b, calendar);
+  if (!pa || !pb) return Number(!pa) - Number(!pb);
+  return pa[0] - pb[0] || pa[1] - pb[1];
+}
@@ -0,0 +1,99 @@
+import { sourceKey } from "../parsers";
+import { Assignment, Move, effectiveRoom, effectiveTeacher } from "./assignments";
+
+// The other lesson in a clash, enough to find it in its own timetable
+export type ClashingLesson = {
+  source: string;
+  subject: string;
+  teacher: string;
+  group: string;
+  room: string;
+  slot: string;
+};
+
+// One lesson that differs from its upload, in the words of a department
+//   moved: the lesson changed slot (and maybe room)
+//   room: the lesson kept its slot but changed room
+//   teacher: the lesson kept its slot and a substitute teaches it
+//   unresolved: the lesson clashes and could not be moved
+export type LessonChange = {
+  kind: 'moved' | 'room' | 'teacher' | 'unresolved';
+  manual: boolean; // placed by a coordinator rather than the solver
+  subject: string;
+  teacher: string;
+  group: string;
+  from: string;
+  to: string | null;
+  fromRoom: string;
+  toRoom: string;
+  substitute?: string; // teacher covering the lesson
+  reason: string;
+  cause?: Move['cause'];
+  clashWith?: ClashingLesson;
+};
+
+// Everything that changed in one source file (or workbook sheet)
+export type SourceChanges = {
+  source: string;
+  file: string;
+  sheet?: string;
+  lessons: number;
+  moved: number;
+  roomChanges: number;
+  substitutions: number;
+  unresolved: number;
+  changes: LessonChange[];
+};
+
+function clashingLesson(other: Assignment): ClashingLesson {
+  return {
+    source: sourceKey(other),
+    subject: other.subject || "",
+    teacher: effectiveTeacher(other),
+    group: other.group || "",
+    room: effectiveRoom(other),
+    slot: other.assignedSlot
+  };
+}
+
+function lessonChange(move: Move): LessonChange {
+  const { entry } = move;
+  const kind = !move.to ? 'unresolved' : move.to !== move.from ? 'moved' : move.teacherChange ? 'teacher' : 'room';
+  return {
+    kind,
+    manual: !!move.manual,
+    subject: entry.subject || "",
+    teacher: entry.teacher || "",
+    group: entry.group || "",
+    from: move.from,
+    to: move.to,
+    fromRoom: move.roomChange?.from ?? (entry.room || ""),
+    toRoom: move.roomChange?.to ?? effectiveRoom(entry),
+    ...(move.teacherChange ? { substitute: move.teacherChange.to } : {}),
+    reason: move.reason,
+    ...(move.cause ? { cause: move.cause } : {}),
+    ...(move.clashWith ? { clashWith: clashingLesson(move.clashWith) } : {})
+  };
+}
+
+// Per-source report of what moved, where to, and what it clashed with. Every
+// source is listed, including those with nothing changed.
+export function changeReport(result: { separatedTimetables: Map<string, Assignment[]>; moves: Move[] }): SourceChanges[] {
+  return [...result.separatedTimetables].map(([source, assignments]) => {
+    const changes = result.moves
+      .filter(m => sourceKey(m.entry) === source)
+      .map(lessonChange);
+    const first = assignments[0];
+    return {
+      source,
+      file: first?.sourceFile || source,
+      ...(first?.sourceSheet ? { sheet: first.sourceSheet } : {}),
+      lessons: assignments.length,
+      moved: changes.filter(c => c.kind === 'moved').length,
+      roomChanges: changes.filter(c => c.kind === 'room').length,
+      substitutions: changes.filter(c => c.kind === 'teacher').length,
+      unresolved: changes.filter(c => c.kind === 'unresolved').length,
+      changes
+    };
+  });
+}
@@ -0,0 +1,95 @@
+import { SchoolCalendar, DEFAULT_CALENDAR, expandSlotPattern } from "./calendar";
+import { splitGroups } from "./groups";
+
+// Hard constraints beyond simple clashes, supplied as an optional second upload
+export type SchedulingConstraints = {
+  teacherUnavailable: Record<string, string[]>; // teacher -> slot patterns ("Mon-P1", "Fri-*", "*-P6")
+  roomCapacity: Record<string, number>; // room -> seats
+  groupSize: Record<string, number>; // group -> students
+  roomFeatures: Record<string, string[]>; // room -> features, e.g. ["lab", "projector"]
+  subjectRequirements: Record<string, string[]>; // subject -> features its room must have
+};
+
+export type ConstraintViolation = {
+  type: 'unavailable' | 'capacity' | 'feature';
+  resource: string;
+  detail: string;
+};
+
+type ConstrainedLesson = {
+  subject?: string;
+  teacher?: string;
+  group?: string;
+  room?: string;
+};
+
+export function emptyConstraints(): SchedulingConstraints {
+  return { teacherUnavailable: {}, roomCapacity: {}, groupSize: {}, roomFeatures: {}, subjectRequirements: {} };
+}
+
+// Slots a teacher cannot be scheduled in
+export function unavailableSlots(
+  teacher: string | undefined,
+  constraints: SchedulingConstraints | undefined,
+  calendar: SchoolCalendar = DEFAULT_CALENDAR
+): Set<string> {
+  const slots = new Set<string>();
+  const patterns = teacher && constraints ? constraints.teacherUnavailable[teacher.trim()] : undefined;
+  for (const pattern of patterns || []) {
+    for (const slot of expandSlotPattern(pattern, calendar)) slots.add(slot);
+  }
+  return slots;
+}
+
+// Students attending a lesson, or undefined when no listed group has a known size
+export function lessonSize(group: string | undefined, constraints: SchedulingConstraints): number | undefined {
+  const sizes = splitGroups(group)
+    .map(g => constraints.groupSize[g])
+    .filter((n): n is number => typeof n === "number");
+  return sizes.length > 0 ? sizes.reduce((a, b) => a + b, 0) : undefined;
+}
+
+// Features the lesson's room is missing
+export function missingFeatures(lesson: ConstrainedLesson, room: string, constraints: SchedulingConstraints): string[] {
+  const required = constraints.subjectRequirements[(lesson.subject || "").trim()] || [];
+  const available = (constraints.roomFeatures[room] || []).map(f => f.toLowerCase());
+  return required.filter(f => !available.includes(f.toLowerCase()));
+}
+
+// Whether the lesson fits a room's capacity and features
+export function roomSuits(lesson: ConstrainedLesson, room: string, constraints: SchedulingConstraints): boolean {
+  const size = lessonSize(lesson.group, constraints);
+  const capacity = constraints.roomCapacity[room];
+  if (size !== undefined && capacity !== undefined && size > capacity) return false;
+  return missingFeatures(lesson, room, constraints).length === 0;
+}
+
+// Every constraint a lesson breaks when placed in slot
+export function checkConstraints(
+  lesson: ConstrainedLesson,
+  slot: string,
+  constraints: SchedulingConstraints,
+  calendar: SchoolCalendar = DEFAULT_CALENDAR
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+  const teacher = (lesson.teacher || "").trim();
+  const room = (lesson.room || "").trim();
+
+  if (teacher && unavailableSlots(teacher, constraints, calendar).has(slot)) {
+    violations.push({ type: 'unavailable', resource: teacher, detail: `${teacher} is unavailable at ${slot}` });
+  }
+
+  if (room) {
+    const size = lessonSize(lesson.group, constraints);
+    const capacity = constraints.roomCapacity[room];
+    if (size !== undefined && capacity !== undefined && size > capacity) {
+      violations.push({ type: 'capacity', resource: room, detail: `${size} students exceed ${room} capacity of ${capacity}` });
+    }
+    const missing = missingFeatures(lesson, room, constraints);
+    if (missing.length > 0) {
+      violations.push({ type: 'feature', resource: room, detail: `${room} lacks ${missing.join(", ")}` });
+    }
+  }
+
+  return violations;
+}
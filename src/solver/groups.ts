@@ -0,0 +1,30 @@
+// Parent group -> direct subgroups, e.g. { CS: ["CS1", "CS2"] }
+export type GroupHierarchy = Record<string, string[]>;
+
+// Split a "CS1, CS2" style group list into individual groups
+export function splitGroups(group: string | undefined): string[] {
+  if (!group) return [];
+  const seen = new Set<string>();
+  for (const part of group.split(/[,;]/)) {
+    const trimmed = part.trim();
+    if (trimmed) seen.add(trimmed);
+  }
+  return [...seen];
+}
+
+// Every group a lesson occupies: the listed groups plus all of their subgroups,
+// so a whole-cohort lecture blocks each subgroup as well
+export function expandGroups(groups: string[], hierarchy: GroupHierarchy = {}): string[] {
+  const out = new Set<string>();
+  const visit = (g: string) => {
+    if (out.has(g)) return;
+    out.add(g);
+    for (const child of hierarchy[g] || []) visit(child.trim());
+  };
+  groups.forEach(visit);
+  return [...out];
+}
+
+export function lessonGroups(group: string | undefined, hierarchy: GroupHierarchy = {}): string[] {
+  return expandGroups(splitGroups(group), hierarchy);
+}
@@ -0,0 +1,269 @@
+import { TimetableRow } from "../parsers";
+import { similarity } from "../parsers/columns";
+import { GroupHierarchy, splitGroups } from "./groups";
+import { SchedulingConstraints } from "./constraints";
+import { Qualifications } from "./substitutes";
+
+export type IdentityKind = 'teacher' | 'room' | 'group';
+
+// Preferred names per kind, spelling -> name to use, e.g.
+// { teacher: { "ABELLO": "Dr. A. Bello" }, room: { "Main Theatre": "LT1" } }
+export type AliasDictionary = Partial<Record<IdentityKind, Record<string, string>>>;
+
+// Spellings that were treated as one teacher, room or group, and pairs of
+// names that look alike but were kept apart for the user to confirm
+export type IdentityReport = {
+  merged: { kind: IdentityKind; name: string; spellings: string[] }[];
+  suspected: { kind: IdentityKind; names: [string, string]; similarity: number }[];
+};
+
+// The names a lesson was resolved under, where they differ from its upload
+export type CanonicalNames = { teacher?: string; room?: string; group?: string };
+
+export type Identities = {
+  canonical(kind: IdentityKind, name: string | undefined): string;
+  canonicalRow<T extends TimetableRow & { assignedRoom?: string; assignedTeacher?: string }>(row: T): T;
+  canonicalHierarchy(hierarchy: GroupHierarchy): GroupHierarchy;
+  canonicalConstraints(constraints: SchedulingConstraints): SchedulingConstraints;
+  canonicalQualifications(qualifications: Qualifications): Qualifications;
+  report: IdentityReport;
+};
+
+const KINDS: IdentityKind[] = ['teacher', 'room', 'group'];
+const TITLES = new Set(["dr", "prof", "professor", "mr", "mrs", "ms", "miss", "mx", "engr", "rev", "sir", "madam"]);
+const SUSPECT_SIMILARITY = 0.85;
+const MAX_SUSPECTED = 100;
+
+function nameTokens(name: string): string[] {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim().split(" ").filter(Boolean);
+}
+
+// Key two spellings of the same name share: only case, spaces and
+// punctuation are ignored, so "Dr. A. Bello" is "drabello" and "LT 1" is "lt1".
+// Teachers are matched more loosely, see teacherKeys.
+export function identityKey(name: string): string {
+  return nameTokens(name).join("");
+}
+
+// A teacher's name in parts: titles, the surname (taken to be the longest
+// word, the last of equally long ones) and the other names, as written
+function teacherParts(name: string): { titles: string; surname: string; given: string[] } {
+  const tokens = nameTokens(name);
+  const words = tokens.filter(t => !TITLES.has(t));
+  const surname = words.reduce((a, b) => (b.length >= a.length ? b : a), "");
+  return {
+    titles: tokens.filter(t => TITLES.has(t)).sort().join(" "),
+    surname,
+    given: words.filter(t => t !== surname)
+  };
+}
+
+// Looser key for spotting likely duplicates:
+//   teachers: titles dropped and every name but the longest cut to its
+//     initial, so "Dr. A. Bello", "Bello A", "Ade Bello" and "ABELLO" look alike
+//   rooms: words cut to initials, so "Lecture Theatre 1" looks like "LT1"
+function looseKey(kind: IdentityKind, name: string): string {
+  if (kind === 'teacher') {
+    const { surname, given } = teacherParts(name);
+    return given.map(t => t[0]).join("") + surname;
+  }
+  if (kind === 'room') {
+    const tokens = nameTokens(name.replace(/([a-z])(\d)/gi, "$1 $2").replace(/(\d)([a-z])/gi, "$1 $2"));
+    const words = tokens.filter(t => /^[a-z]+$/.test(t));
+    const numbers = tokens.filter(t => /^\d+$/.test(t));
+    if (words.length > 1 && numbers.length > 0 && words.length + numbers.length === tokens.length) {
+      return words.map(w => w[0]).join("") + numbers.join("");
+    }
+  }
+  return identityKey(name);
+}
+
+// Whether two teacher names with the same loose key can be one person:
+// titles agree where both are given, and so do names written out in full
+function sameTeacher(a: string, b: string): boolean {
+  const pa = teacherParts(a);
+  const pb = teacherParts(b);
+  if (pa.titles && pb.titles && pa.titles !== pb.titles) return false;
+  const fullA = pa.given.filter(t => t.length > 1);
+  const fullB = pb.given.filter(t => t.length > 1);
+  const [fewer, more] = fullA.length <= fullB.length ? [fullA, fullB] : [fullB, fullA];
+  return fewer.every(t => more.includes(t));
+}
+
+// Teachers' names written with or without titles and initials, such as
+// "Dr. A. Bello", "Bello A" and "ABELLO", share a key when every name with
+// that loose key can be the same person. "Mr Ade" and "Mrs Ade", or "Ade
+// Bello" and "Amaka Bello" (and with them "A. Bello"), keep their own keys
+// and are only suspected. Names met later, e.g. in a constraints file, join
+// a merged name they agree with.
+function teacherKeys(names: string[]): (name: string) => string {
+  const byLoose = new Map<string, Map<string, string>>(); // loose key -> identityKey -> a spelling
+  for (const name of names) {
+    const key = identityKey(name);
+    if (!key) continue;
+    const loose = looseKey('teacher', name);
+    if (!byLoose.has(loose)) byLoose.set(loose, new Map());
+    if (!byLoose.get(loose)!.has(key)) byLoose.get(loose)!.set(key, name);
+  }
+  const merged = new Map<string, string[]>(); // loose key -> one spelling per identityKey
+  for (const [loose, spellings] of byLoose) {
+    const list = [...spellings.values()];
+    if (list.length > 1 && list.every((a, i) => list.slice(i + 1).every(b => sameTeacher(a, b)))) merged.set(loose, list);
+  }
+  return name => {
+    const loose = looseKey('teacher', name);
+    const group = merged.get(loose);
+    return group && group.every(other => sameTeacher(name, other)) ? `~${loose}` : identityKey(name);
+  };
+}
+
+function rowNames(kind: IdentityKind, row: TimetableRow & { assignedRoom?: string; assignedTeacher?: string }): string[] {
+  if (kind === 'teacher') return [row.teacher, row.assignedTeacher].map(t => (t || "").trim()).filter(Boolean);
+  if (kind === 'room') return [row.room, row.assignedRoom].map(r => (r || "").trim()).filter(Boolean);
+  return splitGroups(row.group);
+}
+
+// Work out one name per teacher, room and group across every upload.
+// normalize=false only applies the alias dictionary.
+export function buildIdentities(
+  rows: (TimetableRow & { assignedRoom?: string; assignedTeacher?: string })[],
+  aliases: AliasDictionary = {},
+  normalize = true
+): Identities {
+  const teacherKey = teacherKeys([
+    ...rows.flatMap(row => rowNames('teacher', row)),
+    ...Object.entries(aliases.teacher || {}).flat()
+  ]);
+  const keyOf = (kind: IdentityKind, name: string) =>
+    !normalize ? name.trim() : kind === 'teacher' ? teacherKey(name) : identityKey(name);
+  const aliasTargets = new Map<string, string>(); // kind:key -> preferred name
+  for (const kind of KINDS) {
+    for (const [alias, target] of Object.entries(aliases[kind] || {})) {
+      if (!target.trim()) continue;
+      aliasTargets.set(`${kind}:${keyOf(kind, alias)}`, target.trim());
+      aliasTargets.set(`${kind}:${keyOf(kind, target)}`, target.trim());
+    }
+  }
+  const canonicalKey = (kind: IdentityKind, name: string) => {
+    const target = aliasTargets.get(`${kind}:${keyOf(kind, name)}`);
+    return `${kind}:${keyOf(kind, target ?? name)}`;
+  };
+
+  // Spellings seen for each identity, most used first
+  const spellings = new Map<string, Map<string, number>>();
+  for (const row of rows) {
+    for (const kind of KINDS) {
+      for (const name of rowNames(kind, row)) {
+        const key = canonicalKey(kind, name);
+        if (!spellings.has(key)) spellings.set(key, new Map());
+        const counts = spellings.get(key)!;
+        counts.set(name, (counts.get(name) || 0) + 1);
+      }
+    }
+  }
+  const names = new Map<string, string>();
+  for (const [key, counts] of spellings) {
+    names.set(key, aliasTargets.get(key) ?? [...counts].sort((a, b) => b[1] - a[1])[0][0]);
+  }
+
+  const canonical = (kind: IdentityKind, name: string | undefined): string => {
+    const trimmed = (name || "").trim();
+    if (!trimmed) return name || "";
+    const key = canonicalKey(kind, trimmed);
+    return names.get(key) ?? aliasTargets.get(`${kind}:${keyOf(kind, trimmed)}`) ?? trimmed;
+  };
+  const canonicalGroups = (group: string | undefined): string | undefined => {
+    const groups = splitGroups(group);
+    const mapped = groups.map(g => canonical('group', g));
+    return mapped.every((g, i) => g === groups[i]) ? group : mapped.join(", ");
+  };
+  // Values are merged when several spellings of a key are listed
+  const rekey = <T>(kind: IdentityKind, record: Record<string, T>, merge: (a: T, b: T) => T): Record<string, T> => {
+    const out: Record<string, T> = {};
+    for (const [name, value] of Object.entries(record)) {
+      const key = canonical(kind, name);
+      out[key] = key in out ? merge(out[key], value) : value;
+    }
+    return out;
+  };
+
+  return {
+    canonical,
+    canonicalRow: row => ({
+      ...row,
+      teacher: row.teacher && canonical('teacher', row.teacher),
+      room: row.room && canonical('room', row.room),
+      group: canonicalGroups(row.group),
+      ...(row.assignedRoom ? { assignedRoom: canonical('room', row.assignedRoom) } : {}),
+      ...(row.assignedTeacher ? { assignedTeacher: canonical('teacher', row.assignedTeacher) } : {})
+    }),
+    canonicalHierarchy: hierarchy => rekey(
+      'group',
+      Object.fromEntries(Object.entries(hierarchy).map(([parent, children]) => [parent, children.map(c => canonical('group', c))])),
+      (a, b) => [...new Set([...a, ...b])]
+    ),
+    canonicalConstraints: constraints => ({
+      ...constraints,
+      teacherUnavailable: rekey('teacher', constraints.teacherUnavailable, (a, b) => [...a, ...b]),
+      roomCapacity: rekey('room', constraints.roomCapacity, Math.min),
+      groupSize: rekey('group', constraints.groupSize, Math.max),
+      roomFeatures: rekey('room', constraints.roomFeatures, (a, b) => [...new Set([...a, ...b])])
+    }),
+    canonicalQualifications: qualifications => rekey('teacher', qualifications, (a, b) => [...new Set([...a, ...b])]),
+    report: identityReport(spellings, names)
+  };
+}
+
+function identityReport(
+  spellings: Map<string, Map<string, number>>,
+  names: Map<string, string>
+): IdentityReport {
+  const report: IdentityReport = { merged: [], suspected: [] };
+  for (const [key, counts] of spellings) {
+    if (counts.size < 2) continue;
+    const kind = key.slice(0, key.indexOf(":")) as IdentityKind;
+    report.merged.push({ kind, name: names.get(key)!, spellings: [...counts.keys()] });
+  }
+
+  for (const kind of KINDS) {
+    const identities = [...names].filter(([key]) => key.startsWith(`${kind}:`)).map(([, name]) => ({
+      name,
+      loose: looseKey(kind, name)
+    }));
+    for (let i = 0; i < identities.length; i++) {
+      for (let j = i + 1; j < identities.length; j++) {
+        const a = identities[i];
+        const b = identities[j];
+        const keyA = identityKey(a.name);
+        const keyB = identityKey(b.name);
+        // Short keys such as room numbers are too alike to compare by spelling
+        const score = a.loose === b.loose ? 1 : similarity(keyA, keyB);
+        if (score < 1 && (score < SUSPECT_SIMILARITY || Math.min(keyA.length, keyB.length) < 4)) continue;
+        report.suspected.push({ kind, names: [a.name, b.name], similarity: Math.round(score * 100) / 100 });
+      }
+    }
+  }
+  report.suspected.sort((a, b) => b.similarity - a.similarity);
+  report.suspected = report.suspected.slice(0, MAX_SUSPECTED);
+  return report;
+}
+
+// Put the uploaded spelling back on a resolved lesson, remembering the
+// names it was resolved under
+export function restoreSpelling(
+  target: TimetableRow & { canonical?: CanonicalNames },
+  original: TimetableRow
+) {
+  const canonical: CanonicalNames = {};
+  for (const field of ['teacher', 'room', 'group'] as const) {
+    if ((target[field] || "") !== (original[field] || "")) canonical[field] = target[field];
+    target[field] = original[field];
+  }
+  if (Object.keys(canonical).length > 0) target.canonical = canonical;
+  else delete target.canonical;
+}
+
+// A lesson with the names it was resolved under in place of its own
+export function withCanonicalNames<T extends TimetableRow & { canonical?: CanonicalNames }>(row: T): T {
+  return { ...row, ...row.canonical };
+}
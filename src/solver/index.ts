@@ -1,233 +1,883 @@
-import { TimetableRow } from "../parsers";
-import { Document, Packer, Paragraph, Table, TableRow, TableCell, TextRun } from "docx";
+import { TimetableRow, sourceKey } from "../parsers";
+import {
+  SchoolCalendar,
+  DEFAULT_CALENDAR,
+  normalizeDay,
+  normalizePeriod,
+  isSchedulableSlot,
+  splitSlot,
+  periodLabel,
+  maxPeriods,
+  periodSpan,
+  spanSlots
+} from "./calendar";
+import {
+  Assignment,
+  Conflict,
+  Move,
+  PlannedRow,
+  effectiveRoom,
+  effectiveTeacher,
+  roomText
+} from "./assignments";
+import { GroupHierarchy, lessonGroups } from "./groups";
+import { OptimizeOptions, SolverLesson, optimizeSlots } from "./optimizer";
+import {
+  PreferenceLesson,
+  QualityReport,
+  SoftPreferences,
+  assessQuality,
+  preferenceTracker
+} from "./preferences";
+import { PinRule, isPinned, priorityRank } from "./priority";
+import { collectRooms, reassignRooms } from "./rooms";
+import { Qualifications, Substitution, findSubstitutes } from "./substitutes";
+import {
+  LessonWeeks,
+  WeekBookings,
+  book,
+  isBooked,
+  lessonWeeks,
+  overlappingEntries,
+  weeksOverlap,
+  weeksRejection
+} from "./weeks";
+import {
+  AliasDictionary,
+  IdentityReport,
+  buildIdentities,
+  restoreSpelling,
+  withCanonicalNames
+} from "./identity";
+import {
+  SchedulingConstraints,
+  emptyConstraints,
+  unavailableSlots,
+  checkConstraints
+} from "./constraints";
+import { ApiError } from "../contract";
 
-export type Assignment = TimetableRow & { assignedSlot: string };
-
-export type Conflict = {
-  type: 'teacher' | 'room' | 'group';
+// A lesson a coordinator placed by hand. Every later run puts the matching
+// row (see lessonKey) in this slot and room and treats it as locked.
+export type ManualPlacement = {
+  lesson: string;
   slot: string;
-  conflictingEntries: Assignment[];
-  resource: string; // teacher name, room name, or group name
+  room?: string;
+};
+
+// A row left out of the resolution because it cannot be placed on the calendar
+export type RejectedRow = {
+  row: TimetableRow;
+  reason: string;
 };
 
 export type MergeResult = {
   assignments: Assignment[];
   conflicts: Conflict[];
   separatedTimetables: Map<string, Assignment[]>;
+  moves: Move[];
+  rejected: RejectedRow[];
+  identities: IdentityReport;
+  quality: QualityReport;
+  substitutions: Substitution[];
 };
 
-const DAYS = ["Mon", "Tue", "Wed", "Thu", "Fri"];
-const PERIODS = ["P1", "P2", "P3", "P4", "P5", "P6"];
+export { effectiveRoom, effectiveTeacher, roomText, teacherText } from "./assignments";
+export type { Assignment, Conflict, Move } from "./assignments";
 
-function slotFromRow(r: TimetableRow): string {
-  const day = (r.day || "").trim();
-  const period = (r.period || "").replace(/^period\s*/i, "P").trim();
-  
-  // Normalize day names (handle common variations)
-  const normalizedDay = normalizeDay(day);
-  const normalizedPeriod = normalizePeriod(period);
-  
-  if (!normalizedDay || !normalizedPeriod) return "";
-  return `${normalizedDay}-${normalizedPeriod}`;
-}
+export { buildCalendar, DEFAULT_CALENDAR } from "./calendar";
+export type { SchoolCalendar, CalendarInput } from "./calendar";
 
-function normalizeDay(day: string): string {
-  const dayLower = day.toLowerCase();
-  const dayMappings: Record<string, string> = {
-    'monday': 'Mon',
-    'tuesday': 'Tue', 
-    'wednesday': 'Wed',
-    'thursday': 'Thu',
-    'friday': 'Fri',
-    'mon': 'Mon',
-    'tue': 'Tue',
-    'wed': 'Wed',
-    'thu': 'Thu',
-    'fri': 'Fri'
-  };
-  
-  return dayMappings[dayLower] || day;
+export { splitGroups } from "./groups";
+export type { GroupHierarchy } from "./groups";
+
+export type { PinRule } from "./priority";
+
+export { changeReport } from "./changes";
+export type { SourceChanges, LessonChange, ClashingLesson } from "./changes";
+
+export { identityKey } from "./identity";
+export type { AliasDictionary, IdentityReport, IdentityKind, CanonicalNames } from "./identity";
+
+export type { SoftPreferences, QualityReport, TimetableQuality, PreferenceViolation } from "./preferences";
+
+export { weekLabel } from "./weeks";
+
+export type { Qualifications, Substitution, SubstituteCandidate } from "./substitutes";
+
+export { emptyConstraints } from "./constraints";
+export type { SchedulingConstraints } from "./constraints";
+
+export type MergeOptions = OptimizeOptions & {
+  calendar?: SchoolCalendar;
+  groupHierarchy?: GroupHierarchy;
+  strategy?: 'optimal' | 'greedy'; // greedy is the fast first-come fallback
+  constraints?: SchedulingConstraints;
+  pinned?: PinRule[]; // rows matching any rule are never moved
+  filePriority?: string[]; // source files, highest priority first; lower ones move first
+  rooms?: string[]; // room catalogue used, with rooms seen in the uploads, for room reassignment
+  manual?: ManualPlacement[]; // hand-placed lessons, kept on every run
+  aliases?: AliasDictionary; // preferred names for teachers, rooms and groups
+  normalizeNames?: boolean; // match names ignoring case, spaces and punctuation, and teachers' titles and initials (default true)
+  preferences?: SoftPreferences; // soft limits on daily load, runs, gaps and subject spread
+  qualifications?: Qualifications; // who may cover a lesson left double-booked on its teacher
+  substitutes?: 'suggest' | 'apply'; // list qualified cover (default), or hand the lesson to the least loaded
+};
+
+// Settings every resolution strategy works against
+type ResolveContext = {
+  calendar: SchoolCalendar;
+  groupHierarchy: GroupHierarchy;
+  constraints: SchedulingConstraints;
+  filePriority: string[];
+  preferences: SoftPreferences;
+};
+
+type SlotOccupancy = { teachers: WeekBookings; rooms: WeekBookings; groups: WeekBookings };
+type OccupiedSlots = Map<string, SlotOccupancy>;
+
+// What a lesson needs from a slot
+type LessonNeeds = {
+  teacher: string;
+  room: string;
+  groups: string[];
+  unavailable: Set<string>; // slots the teacher cannot attend
+  length: number; // consecutive periods, moved as one block
+  weeks: LessonWeeks; // only lessons meeting in the same weeks clash
+};
+
+// Row indexes in the order lessons claim resources: locked rows first, then
+// by file priority, then upload order
+function resolutionOrder(rows: TimetableRow[], filePriority: string[]): number[] {
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) =>
+      Number(!!b.row.locked) - Number(!!a.row.locked) ||
+      priorityRank(a.row, filePriority) - priorityRank(b.row, filePriority) ||
+      a.index - b.index
+    )
+    .map(({ index }) => index);
 }
 
-function normalizePeriod(period: string): string {
-  // Handle various period formats: "Period 1", "P1", "1", etc.
-  const periodMatch = period.match(/(\d+)/);
-  if (periodMatch) {
-    const periodNum = parseInt(periodMatch[1]);
-    if (periodNum >= 1 && periodNum <= 6) {
-      return `P${periodNum}`;
-    }
+function rejectionReason(row: TimetableRow, calendar: SchoolCalendar): string | null {
+  const day = (row.day || "").trim();
+  const period = (row.period || "").trim();
+  if (!day) return "Missing day";
+  const normalizedDay = normalizeDay(day, calendar);
+  if (!normalizedDay) return `Unknown day "${day}"`;
+  if (!period) return "Missing period";
+  if (!normalizePeriod(period, normalizedDay, calendar)) {
+    const count = calendar.days.find(d => d.id === normalizedDay)!.periods.length;
+    if (/[-–]|\bto\b/i.test(period)) return `Period range "${period}" does not fit the ${count} periods on ${normalizedDay}`;
+    return `Period "${period}" is not one of the ${count} periods on ${normalizedDay}`;
   }
-  
-  // If already in correct format, return as is
-  if (PERIODS.includes(period)) {
-    return period;
+  if (!(row.teacher || "").trim() && !(row.room || "").trim() && !(row.group || "").trim()) {
+    return "No teacher, room or group";
   }
+  return weeksRejection(row);
+}
+
+// Number of consecutive periods a row covers, 1 unless its period is a range
+export function lessonLength(r: TimetableRow, calendar: SchoolCalendar = DEFAULT_CALENDAR): number {
+  const day = normalizeDay(r.day || "", calendar);
+  return Math.max(1, periodSpan(r.period || "", day, calendar).length);
+}
+
+// Identifies a lesson across runs: where it came from and what it was
+export function lessonKey(row: TimetableRow): string {
+  return [
+    `${sourceKey(row)}#${row.sourceRow ?? ""}`,
+    row.day, row.period, row.subject, row.teacher, row.group
+  ].map(v => (v || "").trim()).join("|");
+}
+
+// Slot the solver starts a row from: its hand-placed slot, if any
+function plannedSlot(row: PlannedRow, calendar: SchoolCalendar): string {
+  return row.manualSlot || slotFromRow(row, calendar);
+}
+
+// Apply hand placements that still fit the calendar; they are pinned in place
+function placeManually(row: TimetableRow, placements: Map<string, ManualPlacement>, calendar: SchoolCalendar): PlannedRow {
+  const placement = placements.get(lessonKey(row));
+  if (!placement) return row;
+  const span = spanSlots(placement.slot, lessonLength(row, calendar), calendar);
+  if (!span || !span.every(s => isSchedulableSlot(s, calendar))) return row;
+  const room = (placement.room || "").trim();
+  return {
+    ...row,
+    locked: true,
+    manualSlot: placement.slot,
+    ...(room && room !== (row.room || "").trim() ? { assignedRoom: room } : {})
+  };
+}
+
+export function slotFromRow(r: TimetableRow, calendar: SchoolCalendar = DEFAULT_CALENDAR): string {
+  // Normalize day names and periods against the supplied calendar
+  const normalizedDay = normalizeDay(r.day || "", calendar);
+  const normalizedPeriod = normalizedDay ? normalizePeriod(r.period || "", normalizedDay, calendar) : "";
   
-  return period;
+  if (!normalizedDay || !normalizedPeriod) return "";
+  return `${normalizedDay}-${normalizedPeriod}`;
 }
 
+// With a score, every free slot is looked at and the lowest scoring one
+// wins; ties go to the slot the search order reaches first
 function findNextAvailableSlot(
   currentSlot: string,
-  teacher: string,
-  room: string,
-  group: string,
-  occupiedSlots: Map<string, { teachers: Set<string>; rooms: Set<string>; groups: Set<string> }>
+  needs: LessonNeeds,
+  occupiedSlots: OccupiedSlots,
+  calendar: SchoolCalendar,
+  score?: (slot: string) => number
 ): string | null {
   if (!currentSlot) return null;
   
-  const [currentDay, currentPeriod] = currentSlot.split('-');
-  const dayIndex = DAYS.indexOf(currentDay);
-  const periodIndex = PERIODS.indexOf(currentPeriod);
+  const [currentDay, currentPeriod] = splitSlot(currentSlot);
+  const dayIndex = calendar.days.findIndex(d => d.id === currentDay);
+  if (dayIndex === -1) return null;
+  const dayPeriods = calendar.days[dayIndex].periods;
+  const periodIndex = dayPeriods.findIndex(p => p.id === currentPeriod);
   
-  if (dayIndex === -1 || periodIndex === -1) return null;
+  if (periodIndex === -1) return null;
 
-  // Try next periods on same day first
-  for (let p = periodIndex + 1; p < PERIODS.length; p++) {
-    const slot = `${currentDay}-${PERIODS[p]}`;
-    if (isSlotAvailable(slot, teacher, room, group, occupiedSlots)) {
-      return slot;
+  let best = null as { slot: string; score: number } | null;
+  const tryDay = (d: number, periodIndexes: number[]): string | null => {
+    const day = calendar.days[d];
+    for (const p of periodIndexes) {
+      const slot = `${day.id}-${day.periods[p].id}`;
+      if (!isSlotAvailable(slot, needs, occupiedSlots, calendar)) continue;
+      if (!score) return slot;
+      const cost = score(slot);
+      if (!best || cost < best.score) best = { slot, score: cost };
+      if (best.score === 0) return slot; // nothing scores lower
     }
-  }
+    return null;
+  };
+  const allPeriods = (d: number) => calendar.days[d].periods.map((_, i) => i);
+
+  // Try next periods on same day first
+  const later = tryDay(dayIndex, allPeriods(dayIndex).filter(p => p > periodIndex));
+  if (later) return later;
 
   // Try next days
-  for (let d = dayIndex + 1; d < DAYS.length; d++) {
-    for (let p = 0; p < PERIODS.length; p++) {
-      const slot = `${DAYS[d]}-${PERIODS[p]}`;
-      if (isSlotAvailable(slot, teacher, room, group, occupiedSlots)) {
-        return slot;
-      }
-    }
+  for (let d = dayIndex + 1; d < calendar.days.length; d++) {
+    const slot = tryDay(d, allPeriods(d));
+    if (slot) return slot;
   }
 
   // Try previous periods on same day
-  for (let p = periodIndex - 1; p >= 0; p--) {
-    const slot = `${currentDay}-${PERIODS[p]}`;
-    if (isSlotAvailable(slot, teacher, room, group, occupiedSlots)) {
-      return slot;
-    }
-  }
+  const earlier = tryDay(dayIndex, allPeriods(dayIndex).filter(p => p < periodIndex).reverse());
+  if (earlier) return earlier;
 
   // Try previous days
   for (let d = dayIndex - 1; d >= 0; d--) {
-    for (let p = 0; p < PERIODS.length; p++) {
-      const slot = `${DAYS[d]}-${PERIODS[p]}`;
-      if (isSlotAvailable(slot, teacher, room, group, occupiedSlots)) {
-        return slot;
-      }
-    }
+    const slot = tryDay(d, allPeriods(d));
+    if (slot) return slot;
   }
 
-  return null; // No available slot found
+  return best?.slot ?? null; // No available slot found
 }
 
+// Whether the lesson can start at slot: every period it covers must be free
 function isSlotAvailable(
   slot: string,
-  teacher: string,
-  room: string,
-  group: string,
-  occupiedSlots: Map<string, { teachers: Set<string>; rooms: Set<string>; groups: Set<string> }>
+  needs: LessonNeeds,
+  occupiedSlots: OccupiedSlots,
+  calendar: SchoolCalendar = DEFAULT_CALENDAR
+): boolean {
+  const span = spanSlots(slot, needs.length, calendar);
+  return !!span && span.every(s => isPeriodFree(s, needs, occupiedSlots, calendar));
+}
+
+function isPeriodFree(
+  slot: string,
+  needs: LessonNeeds,
+  occupiedSlots: OccupiedSlots,
+  calendar: SchoolCalendar
 ): boolean {
+  if (!isSchedulableSlot(slot, calendar)) return false;
+  if (needs.unavailable.has(slot)) return false;
+
   const slotData = occupiedSlots.get(slot);
   if (!slotData) return true;
 
-  const teacherConflict = teacher && slotData.teachers.has(teacher);
-  const roomConflict = room && slotData.rooms.has(room);
-  const groupConflict = group && slotData.groups.has(group);
+  const { weeks } = needs;
+  const teacherConflict = needs.teacher && isBooked(slotData.teachers, needs.teacher, weeks);
+  const roomConflict = needs.room && isBooked(slotData.rooms, needs.room, weeks);
+  const groupConflict = needs.groups.some(g => isBooked(slotData.groups, g, weeks));
 
   return !teacherConflict && !roomConflict && !groupConflict;
 }
 
+// Explain why a slot is unavailable: the first clashing resource in any
+// period the lesson covers, if any
+function describeClash(
+  slot: string,
+  needs: LessonNeeds,
+  occupiedSlots: OccupiedSlots,
+  calendar: SchoolCalendar
+): Move['cause'] | null {
+  const { teacher, room, groups, weeks } = needs;
+  const spanned = needs.length > 1;
+  for (const period of spanSlots(slot, needs.length, calendar) || []) {
+    const at = spanned ? { slot: period } : {};
+    if (teacher && needs.unavailable.has(period)) return { type: 'unavailable', resource: teacher, ...at };
+
+    const slotData = occupiedSlots.get(period);
+    if (!slotData) continue;
+
+    if (teacher && isBooked(slotData.teachers, teacher, weeks)) return { type: 'teacher', resource: teacher, ...at };
+    if (room && isBooked(slotData.rooms, room, weeks)) return { type: 'room', resource: room, ...at };
+    const clashingGroup = groups.find(g => isBooked(slotData.groups, g, weeks));
+    if (clashingGroup) return { type: 'group', resource: clashingGroup, ...at };
+  }
+  return null;
+}
+
+function explainCause(cause: Move['cause'], slot: string): string {
+  if (!cause) return `${slot} is blocked`;
+  if (cause.slot) slot = cause.slot;
+  if (cause.type === 'unavailable') return `${cause.resource} is unavailable at ${slot}`;
+  return `${cause.type} ${cause.resource} already booked at ${slot}`;
+}
+
+function preferenceLesson(row: PlannedRow, context: ResolveContext): PreferenceLesson {
+  return {
+    teacher: effectiveTeacher(row),
+    groups: lessonGroups(row.group, context.groupHierarchy),
+    subject: (row.subject || "").trim(),
+    length: lessonLength(row, context.calendar)
+  };
+}
+
+// Soft preference score of placed lessons, overall and per source timetable
+function timetableQuality(assignments: Assignment[], context: ResolveContext): QualityReport {
+  return assessQuality(
+    assignments.map(a => preferenceLesson(a, context)),
+    assignments.map(a => a.assignedSlot),
+    assignments.map(sourceKey),
+    context.preferences,
+    context.calendar
+  );
+}
+
+function lessonNeeds(row: PlannedRow, context: ResolveContext): LessonNeeds {
+  const { calendar, groupHierarchy, constraints } = context;
+  return {
+    teacher: effectiveTeacher(row),
+    room: effectiveRoom(row),
+    groups: lessonGroups(row.group, groupHierarchy),
+    unavailable: unavailableSlots(effectiveTeacher(row), constraints, calendar),
+    length: lessonLength(row, calendar),
+    weeks: lessonWeeks(row)
+  };
+}
+
+// The lesson that holds the clashing resource in any of the given periods
+function clashingEntry(
+  entry: Assignment,
+  cause: Move['cause'],
+  periods: string[],
+  others: Assignment[],
+  groupHierarchy: GroupHierarchy
+): Assignment | undefined {
+  if (!cause || cause.type === 'unavailable') return undefined;
+  const resource = `${cause.type}:${cause.resource}`;
+  const at = cause.slot ? [cause.slot] : periods;
+  const weeks = lessonWeeks(entry);
+  return others.find(other =>
+    other && other !== entry &&
+    other.assignedSlots.some(s => at.includes(s)) &&
+    weeksOverlap(weeks, lessonWeeks(other)) &&
+    lessonResources(other, groupHierarchy).includes(resource)
+  );
+}
+
+// Whether no other lesson uses the room in the periods and weeks of entry
+function roomFree(room: string, entry: Assignment, assignments: Assignment[]): boolean {
+  const weeks = lessonWeeks(entry);
+  return !assignments.some(other =>
+    other !== entry &&
+    effectiveRoom(other) === room &&
+    other.assignedSlots.some(s => entry.assignedSlots.includes(s)) &&
+    weeksOverlap(weeks, lessonWeeks(other))
+  );
+}
+
+// Book the lesson's resources in every period it covers
 function addToSlot(
   slot: string,
-  teacher: string,
-  room: string,
-  group: string,
-  occupiedSlots: Map<string, { teachers: Set<string>; rooms: Set<string>; groups: Set<string> }>
+  needs: LessonNeeds,
+  occupiedSlots: OccupiedSlots,
+  calendar: SchoolCalendar
 ): void {
-  if (!occupiedSlots.has(slot)) {
-    occupiedSlots.set(slot, {
-      teachers: new Set(),
-      rooms: new Set(),
-      groups: new Set()
+  const { teacher, room, groups, weeks } = needs;
+  for (const period of spanSlots(slot, needs.length, calendar) || [slot]) {
+    if (!occupiedSlots.has(period)) {
+      occupiedSlots.set(period, {
+        teachers: new Map(),
+        rooms: new Map(),
+        groups: new Map()
+      });
+    }
+
+    const slotData = occupiedSlots.get(period)!;
+    if (teacher && teacher.trim()) book(slotData.teachers, teacher.trim(), weeks);
+    if (room && room.trim()) book(slotData.rooms, room.trim(), weeks);
+    for (const g of groups) book(slotData.groups, g, weeks);
+  }
+}
+
+export function mergeAndResolve(rows: TimetableRow[], options: MergeOptions = {}): MergeResult {
+  const calendar = options.calendar || DEFAULT_CALENDAR;
+  // Different spellings of one teacher, room or group clash like the same name
+  const identities = buildIdentities(rows, options.aliases, options.normalizeNames !== false);
+  const groupHierarchy = identities.canonicalHierarchy(options.groupHierarchy || {});
+  const constraints = identities.canonicalConstraints(options.constraints || emptyConstraints());
+  const context: ResolveContext = {
+    calendar,
+    groupHierarchy,
+    constraints,
+    filePriority: options.filePriority || [],
+    preferences: options.preferences || {}
+  };
+
+  // Filter out invalid rows, keeping the reason for the diagnostics report
+  const rejected: RejectedRow[] = [];
+  const placements = new Map((options.manual || []).map(p => [p.lesson, p]));
+  const uploadedRows: PlannedRow[] = rows
+    .filter(row => {
+      const reason = rejectionReason(row, calendar);
+      if (reason) rejected.push({ row, reason });
+      return !reason;
+    })
+    .map(row => (isPinned(row, options.pinned) ? { ...row, locked: true } : row))
+    .map(row => placeManually(row, placements, calendar));
+  const validRows = uploadedRows.map(row => identities.canonicalRow(row));
+
+  // Room clashes are settled by handing out another free room in the same
+  // slot; only what is left over needs a time move
+  const rooms = (options.rooms || []).map(room => identities.canonical('room', room));
+  const roomPool = collectRooms(validRows, rooms, constraints);
+  const roomChanges = reassignRooms(
+    validRows,
+    validRows.map(row => spanSlots(plannedSlot(row, calendar), lessonLength(row, calendar), calendar) || []),
+    resolutionOrder(validRows, context.filePriority),
+    roomPool,
+    groupHierarchy,
+    constraints
+  );
+  const plannedRows: PlannedRow[] = validRows.slice();
+  for (const change of roomChanges) {
+    plannedRows[change.index] = { ...validRows[change.index], assignedRoom: change.to };
+  }
+
+  // First pass: assign slots and resolve conflicts
+  const { assignments, moves } = options.strategy === 'greedy'
+    ? greedyResolve(plannedRows, context)
+    : optimalResolve(plannedRows, context, options);
+
+  // Room changes are recorded where each lesson ended up. A lesson the
+  // solver also moved in time goes back to its own room when that is free
+  // there, and otherwise carries the room change on its time move.
+  for (const change of roomChanges) {
+    const entry = assignments[change.index];
+    const slot = slotFromRow(entry, calendar);
+    const timeMove = moves.find(m => m.entry === entry && m.to && m.to !== m.from);
+    if (timeMove) {
+      if (roomFree(change.from, entry, assignments)) {
+        delete entry.assignedRoom;
+      } else {
+        timeMove.roomChange = { from: change.from, to: change.to };
+        timeMove.reason += `; room changed from ${change.from} to ${change.to}`;
+      }
+      continue;
+    }
+    const cause: Move['cause'] = { type: 'room', resource: change.from };
+    moves.unshift({
+      entry,
+      from: slot,
+      to: slot,
+      reason: `Room changed from ${change.from} to ${change.to}: room ${change.from} already booked at ${slot}`,
+      cause,
+      roomChange: { from: change.from, to: change.to },
+      clashWith: clashingEntry(entry, cause, entry.assignedSlots, assignments, groupHierarchy)
     });
   }
-  
-  const slotData = occupiedSlots.get(slot)!;
-  if (teacher && teacher.trim()) slotData.teachers.add(teacher.trim());
-  if (room && room.trim()) slotData.rooms.add(room.trim());
-  if (group && group.trim()) slotData.groups.add(group.trim());
+
+  // Hand placements are reported first, as moves the coordinator made
+  const manualMoves: Move[] = [];
+  for (const entry of assignments) {
+    if (!entry.manualSlot) continue;
+    const from = slotFromRow(entry, calendar);
+    const roomChange = entry.assignedRoom ? { from: entry.room || "", to: entry.assignedRoom } : undefined;
+    if (from === entry.assignedSlot && !roomChange) continue;
+    manualMoves.push({ entry, from, to: entry.assignedSlot, reason: "Moved manually", manual: true, ...(roomChange ? { roomChange } : {}) });
+  }
+  moves.unshift(...manualMoves);
+
+  // Teachers still double-booked may be covered by a qualified colleague
+  const { substitutions, moves: finalMoves } = options.qualifications
+    ? findSubstitutes(
+      assignments,
+      moves,
+      identities.canonicalQualifications(options.qualifications),
+      resolutionOrder(plannedRows, context.filePriority),
+      constraints,
+      calendar,
+      options.substitutes === 'apply'
+    )
+    : { substitutions: [], moves };
+  for (const substitution of substitutions) {
+    if (substitution.applied) substitution.entry.assignedTeacher = substitution.applied;
+  }
+
+  // Second pass: detect remaining conflicts after resolution
+  const conflicts = detectConflicts(assignments, groupHierarchy, constraints, calendar);
+  const quality = timetableQuality(assignments, context);
+
+  // Output keeps each upload's own spelling
+  assignments.forEach((assignment, i) => restoreSpelling(assignment, uploadedRows[i]));
+
+  return {
+    assignments,
+    conflicts,
+    separatedTimetables: separateBySource(assignments),
+    moves: finalMoves,
+    rejected,
+    identities: identities.report,
+    quality,
+    substitutions
+  };
 }
 
-export function mergeAndResolve(rows: TimetableRow[]): MergeResult {
-  const assignments: Assignment[] = [];
+// Keep each source file's (or workbook sheet's) lessons together
+export function separateBySource(assignments: Assignment[]): Map<string, Assignment[]> {
   const separatedTimetables = new Map<string, Assignment[]>();
-  const occupiedSlots = new Map<string, { teachers: Set<string>; rooms: Set<string>; groups: Set<string> }>();
+  for (const assignment of assignments) {
+    const source = sourceKey(assignment);
+    if (!separatedTimetables.has(source)) {
+      separatedTimetables.set(source, []);
+    }
+    separatedTimetables.get(source)!.push(assignment);
+  }
+  return separatedTimetables;
+}
+
+// A change a coordinator makes to a resolved timetable. Lessons are indexes
+// into the resolution's assignments; "to" is a slot such as "Mon-P3".
+export type Adjustment =
+  | { action: 'move'; lesson: number; to: string; room?: string }
+  | { action: 'swap'; lessons: [number, number] };
 
-  // Filter out invalid rows
-  const validRows = rows.filter(row => {
-    const slot = slotFromRow(row);
-    return slot && slot.includes('-') && (row.teacher || row.room || row.group);
+// What an adjustment would do, worked out without changing anything
+export type AdjustmentCheck = {
+  available: boolean; // every moved lesson lands in free periods
+  blockers: { lesson: number; cause: NonNullable<Move['cause']> }[];
+  assignments: Assignment[]; // the timetable with the change made
+  conflicts: Conflict[]; // all conflicts after the change
+  newConflicts: Conflict[]; // caused by the change
+  resolvedConflicts: Conflict[]; // gone after the change
+  moves: Move[];
+  placements: ManualPlacement[]; // to keep the change on later runs
+  quality: QualityReport; // soft preference score after the change
+};
+
+function badAdjustment(message: string): ApiError {
+  return new ApiError(400, "invalid_adjustment", message);
+}
+
+// Same conflict before and after a change: same clash between the same lessons
+function conflictKey(conflict: Conflict): string {
+  const lessons = conflict.conflictingEntries.map(lessonKey).sort();
+  return [conflict.type, conflict.slot, conflict.resource, ...lessons].join("\n");
+}
+
+// Re-check a resolved timetable with one lesson moved, or two lessons
+// swapped, against everything else in it
+export function checkAdjustment(
+  uploaded: Assignment[],
+  adjustment: Adjustment,
+  options: MergeOptions = {}
+): AdjustmentCheck {
+  const calendar = options.calendar || DEFAULT_CALENDAR;
+  // Check under the names the timetable was resolved with
+  const assignments = uploaded.map(withCanonicalNames);
+  const identities = buildIdentities(assignments, options.aliases, options.normalizeNames !== false);
+  const groupHierarchy = identities.canonicalHierarchy(options.groupHierarchy || {});
+  const constraints = identities.canonicalConstraints(options.constraints || emptyConstraints());
+  const context: ResolveContext = {
+    calendar,
+    groupHierarchy,
+    constraints,
+    filePriority: [],
+    preferences: options.preferences || {}
+  };
+
+  const lessonAt = (index: unknown): Assignment => {
+    if (typeof index !== 'number' || !Number.isInteger(index) || !assignments[index]) {
+      throw badAdjustment(`Lesson ${index} is not in this timetable`);
+    }
+    return assignments[index];
+  };
+
+  // Where each changed lesson goes, and in which room
+  let targets: { index: number; slot: string; room?: string }[];
+  if (adjustment.action === 'move') {
+    lessonAt(adjustment.lesson);
+    const [day, period] = splitSlot(String(adjustment.to || ""));
+    const slot = slotFromRow({ day, period }, calendar);
+    if (!slot) throw badAdjustment(`Slot ${adjustment.to} is not on the calendar`);
+    targets = [{ index: adjustment.lesson, slot, room: adjustment.room }];
+  } else if (adjustment.action === 'swap') {
+    const [a, b] = adjustment.lessons || [];
+    const first = lessonAt(a);
+    const second = lessonAt(b);
+    if (a === b) throw badAdjustment("A lesson cannot be swapped with itself");
+    targets = [{ index: a, slot: second.assignedSlot }, { index: b, slot: first.assignedSlot }];
+  } else {
+    const unknown: never = adjustment;
+    throw badAdjustment(`Unknown adjustment ${JSON.stringify(unknown)}; use "move" or "swap"`);
+  }
+
+  // Everything that stays put keeps its periods booked
+  const occupiedSlots: OccupiedSlots = new Map();
+  const changed = new Set(targets.map(t => t.index));
+  assignments.forEach((assignment, i) => {
+    if (changed.has(i)) return;
+    addToSlot(assignment.assignedSlot, lessonNeeds(assignment, context), occupiedSlots, calendar);
   });
 
-  // First pass: assign slots and resolve conflicts
-  for (const row of validRows) {
-    const originalSlot = slotFromRow(row);
+  const adjusted = assignments.slice();
+  const blockers: AdjustmentCheck['blockers'] = [];
+  const moves: Move[] = [];
+  const placements: ManualPlacement[] = [];
+  for (const { index, slot, room } of targets) {
+    const original = assignments[index];
+    const { assignedRoom: _, ...row } = original;
+    const newRoom = room === undefined ? effectiveRoom(original) : identities.canonical('room', room.trim());
+    const placed: PlannedRow = { ...row, ...(newRoom !== (row.room || "").trim() ? { assignedRoom: newRoom } : {}) };
+    const needs = lessonNeeds(placed, context);
+    const assignedSlots = spanSlots(slot, needs.length, calendar);
+    if (!assignedSlots) {
+      throw badAdjustment(`${original.subject || "Lesson"} (${needs.length} periods) does not fit from ${slot}`);
+    }
+
+    if (!isSlotAvailable(slot, needs, occupiedSlots, calendar)) {
+      const cause = describeClash(slot, needs, occupiedSlots, calendar);
+      if (cause) blockers.push({ lesson: index, cause });
+    }
+    addToSlot(slot, needs, occupiedSlots, calendar);
+
+    const entry: Assignment = { ...placed, locked: true, manualSlot: slot, assignedSlot: slot, assignedSlots };
+    adjusted[index] = entry;
+    const roomChange = placed.assignedRoom ? { from: row.room || "", to: placed.assignedRoom } : undefined;
+    moves.push({ entry, from: original.assignedSlot, to: slot, reason: "Moved manually", manual: true, ...(roomChange ? { roomChange } : {}) });
+    placements.push({ lesson: lessonKey(uploaded[index]), slot, ...(placed.assignedRoom ? { room: placed.assignedRoom } : {}) });
+  }
+
+  const before = detectConflicts(assignments, groupHierarchy, constraints, calendar);
+  const conflicts = detectConflicts(adjusted, groupHierarchy, constraints, calendar);
+  const beforeKeys = new Set(before.map(conflictKey));
+  const afterKeys = new Set(conflicts.map(conflictKey));
+  const quality = timetableQuality(adjusted, context);
+
+  // Every lesson object in the results gets its uploaded spelling back
+  const spelling = new Map<Assignment, Assignment>();
+  assignments.forEach((a, i) => spelling.set(a, uploaded[i]));
+  adjusted.forEach((a, i) => spelling.set(a, uploaded[i]));
+  for (const [assignment, original] of spelling) restoreSpelling(assignment, original);
+
+  return {
+    available: blockers.length === 0,
+    blockers,
+    assignments: adjusted,
+    conflicts,
+    newConflicts: conflicts.filter(c => !beforeKeys.has(conflictKey(c))),
+    resolvedConflicts: before.filter(c => !afterKeys.has(conflictKey(c))),
+    moves,
+    placements,
+    quality
+  };
+}
+
+// Fast first-come pass: locked rows are placed first, then rows by file
+// priority and upload order; any row that clashes with an earlier one goes to
+// the next free slot
+function greedyResolve(
+  validRows: PlannedRow[],
+  context: ResolveContext
+): { assignments: Assignment[]; moves: Move[] } {
+  const { calendar, groupHierarchy, filePriority } = context;
+  const assignments: Assignment[] = new Array(validRows.length);
+  const moves: Move[] = [];
+  const occupiedSlots: OccupiedSlots = new Map();
+  // A lesson that has to move goes where it breaks the fewest preferences
+  const preferences = preferenceTracker(validRows.map(row => preferenceLesson(row, context)), context.preferences, calendar);
+
+  for (const index of resolutionOrder(validRows, filePriority)) {
+    const row = validRows[index];
+    const originalSlot = plannedSlot(row, calendar);
     let assignedSlot = originalSlot;
     
-    const teacher = (row.teacher || "").trim();
-    const room = (row.room || "").trim();
-    const group = (row.group || "").trim();
-    const sourceFile = row.sourceFile || "unknown";
+    const needs = lessonNeeds(row, context);
 
     // Check for conflicts in the original slot
-    const hasConflict = !isSlotAvailable(originalSlot, teacher, room, group, occupiedSlots);
+    const hasConflict = !isSlotAvailable(originalSlot, needs, occupiedSlots, calendar);
+
+    let move: Omit<Move, 'entry'> | null = null;
 
-    if (hasConflict) {
+    if (hasConflict && row.locked) {
+      // Locked lessons never move; the clash is reported instead
+      const cause = describeClash(originalSlot, needs, occupiedSlots, calendar) || undefined;
+      move = { from: originalSlot, to: null, reason: `Locked lesson kept in place: ${explainCause(cause, originalSlot)}`, cause };
+      console.warn(`Locked lesson ${row.subject} clashes at ${originalSlot}`);
+    } else if (hasConflict) {
+      const cause = describeClash(originalSlot, needs, occupiedSlots, calendar) || undefined;
+      const why = explainCause(cause, originalSlot);
       // Try to find an alternative slot
-      const alternativeSlot = findNextAvailableSlot(originalSlot, teacher, room, group, occupiedSlots);
+      const alternativeSlot = findNextAvailableSlot(
+        originalSlot,
+        needs,
+        occupiedSlots,
+        calendar,
+        slot => preferences.cost(index, slot)
+      );
       
       if (alternativeSlot) {
         assignedSlot = alternativeSlot;
+        move = { from: originalSlot, to: alternativeSlot, reason: `Moved: ${why}`, cause };
         console.log(`Moved ${row.subject} from ${originalSlot} to ${alternativeSlot} due to conflict`);
       } else {
         // No alternative found, keep original slot (this will create a conflict)
         assignedSlot = originalSlot;
+        move = { from: originalSlot, to: null, reason: `No alternative slot found: ${why}`, cause };
         console.warn(`No alternative slot found for ${row.subject} at ${originalSlot}`);
       }
     }
 
-    const assignment: Assignment = { ...row, assignedSlot };
-    assignments.push(assignment);
-
-    // Add to separated timetables
-    if (!separatedTimetables.has(sourceFile)) {
-      separatedTimetables.set(sourceFile, []);
+    const assignedSlots = spanSlots(assignedSlot, needs.length, calendar) || [assignedSlot];
+    const assignment: Assignment = { ...row, assignedSlot, assignedSlots };
+    if (move) {
+      // Only lessons placed before this one can be holding the resource
+      const originalSpan = spanSlots(originalSlot, needs.length, calendar) || [originalSlot];
+      const clashWith = clashingEntry(assignment, move.cause, originalSpan, assignments, groupHierarchy);
+      moves.push({ entry: assignment, ...move, ...(clashWith ? { clashWith } : {}) });
     }
-    separatedTimetables.get(sourceFile)!.push(assignment);
+    assignments[index] = assignment;
 
     // Update occupied slots
-    addToSlot(assignedSlot, teacher, room, group, occupiedSlots);
+    addToSlot(assignedSlot, needs, occupiedSlots, calendar);
+    preferences.add(index, assignedSlot);
   }
 
-  // Second pass: detect remaining conflicts after resolution
-  const conflicts = detectConflicts(assignments);
+  return { assignments, moves };
+}
 
-  return { assignments, conflicts, separatedTimetables };
+function lessonResources(row: PlannedRow, groupHierarchy: GroupHierarchy): string[] {
+  const resources: string[] = [];
+  const teacher = effectiveTeacher(row);
+  const room = effectiveRoom(row);
+  if (teacher) resources.push(`teacher:${teacher}`);
+  if (room) resources.push(`room:${room}`);
+  for (const g of lessonGroups(row.group, groupHierarchy)) resources.push(`group:${g}`);
+  return resources;
 }
 
-function detectConflicts(assignments: Assignment[]): Conflict[] {
+// Order-independent resolution: every row starts in its original slot and the
+// optimizer decides which ones move, keeping moves few and short
+function optimalResolve(
+  validRows: PlannedRow[],
+  context: ResolveContext,
+  options: OptimizeOptions
+): { assignments: Assignment[]; moves: Move[] } {
+  const { calendar, groupHierarchy, constraints, filePriority } = context;
+  const lessons: SolverLesson[] = validRows.map(row => ({
+    original: plannedSlot(row, calendar),
+    resources: lessonResources(row, groupHierarchy),
+    unavailable: unavailableSlots(row.teacher, constraints, calendar),
+    fixed: !!row.locked,
+    length: lessonLength(row, calendar),
+    weeks: lessonWeeks(row),
+    // Moving a lesson from a higher-priority file costs more
+    moveWeight: 1 + 4 * (filePriority.length - priorityRank(row, filePriority))
+  }));
+  const preferences = preferenceTracker(validRows.map(row => preferenceLesson(row, context)), context.preferences, calendar);
+  const slots = optimizeSlots(lessons, calendar, options, preferences);
+
+  const span = (i: number, slot: string) => spanSlots(slot, lessons[i].length ?? 1, calendar) || [slot];
+  const overlaps = (a: string[], b: string[]) => a.some(s => b.includes(s));
+  const sameWeeks = (i: number, j: number) => weeksOverlap(lessons[i].weeks!, lessons[j].weeks!);
+  const assignments: Assignment[] = validRows.map((row, i) => ({
+    ...row,
+    assignedSlot: slots[i],
+    assignedSlots: span(i, slots[i])
+  }));
+  const moves: Move[] = [];
+
+  assignments.forEach((assignment, i) => {
+    const originalSlot = lessons[i].original;
+    const assignedSlot = slots[i];
+    const stillClashing = lessons.some((other, j) =>
+      j !== i &&
+      overlaps(assignments[j].assignedSlots, assignment.assignedSlots) &&
+      sameWeeks(i, j) &&
+      other.resources.some(r => lessons[i].resources.includes(r))
+    );
+    const allowed = !!spanSlots(assignedSlot, lessons[i].length ?? 1, calendar) &&
+      assignment.assignedSlots.every(s => isSchedulableSlot(s, calendar) && !lessons[i].unavailable?.has(s));
+    if (assignedSlot === originalSlot && !stillClashing && allowed) return;
+
+    // Explain the move by the first resource shared with another lesson uploaded over the same periods
+    let cause: Move['cause'];
+    let clashWith: Assignment | undefined;
+    const originalSpan = span(i, originalSlot);
+    lessons.forEach((other, j) => {
+      if (cause || j === i || !overlaps(span(j, other.original), originalSpan) || !sameWeeks(i, j)) return;
+      const shared = other.resources.find(r => lessons[i].resources.includes(r));
+      if (shared) {
+        const sep = shared.indexOf(':');
+        cause = { type: shared.slice(0, sep) as Conflict['type'], resource: shared.slice(sep + 1) };
+        clashWith = assignments[j];
+      }
+    });
+    if (!cause && originalSpan.some(s => lessons[i].unavailable?.has(s))) {
+      cause = { type: 'unavailable', resource: (assignment.teacher || "").trim() };
+    }
+    const why = explainCause(cause, originalSlot);
+    const clash = clashWith ? { clashWith } : {};
+
+    if (assignedSlot !== originalSlot) {
+      moves.push({ entry: assignment, from: originalSlot, to: assignedSlot, reason: `Moved: ${why}`, cause, ...clash });
+      console.log(`Moved ${assignment.subject} from ${originalSlot} to ${assignedSlot} due to conflict`);
+    } else if (assignment.locked) {
+      moves.push({ entry: assignment, from: originalSlot, to: null, reason: `Locked lesson kept in place: ${why}`, cause, ...clash });
+      console.warn(`Locked lesson ${assignment.subject} clashes at ${originalSlot}`);
+    } else {
+      moves.push({ entry: assignment, from: originalSlot, to: null, reason: `No alternative slot found: ${why}`, cause, ...clash });
+      console.warn(`No alternative slot found for ${assignment.subject} at ${originalSlot}`);
+    }
+  });
+
+  return { assignments, moves };
+}
+
+function detectConflicts(
+  assignments: Assignment[],
+  groupHierarchy: GroupHierarchy = {},
+  constraints: SchedulingConstraints = emptyConstraints(),
+  calendar: SchoolCalendar = DEFAULT_CALENDAR
+): Conflict[] {
   const slotMap = new Map<string, Assignment[]>();
   const conflicts: Conflict[] = [];
   
-  // Group assignments by their final assigned slot
+  // Group assignments by every slot they finally cover
   for (const assignment of assignments) {
-    if (!assignment.assignedSlot) continue;
-    
-    if (!slotMap.has(assignment.assignedSlot)) {
-      slotMap.set(assignment.assignedSlot, []);
+    for (const slot of assignment.assignedSlots) {
+      if (!slotMap.has(slot)) {
+        slotMap.set(slot, []);
+      }
+      slotMap.get(slot)!.push(assignment);
     }
-    slotMap.get(assignment.assignedSlot)!.push(assignment);
   }
 
   // Check each slot for conflicts
@@ -237,7 +887,7 @@ function detectConflicts(assignments: Assignment[]): Conflict[] {
     // Check for teacher conflicts
     const teacherMap = new Map<string, Assignment[]>();
     for (const assignment of slotAssignments) {
-      const teacher = (assignment.teacher || "").trim();
+      const teacher = effectiveTeacher(assignment);
       if (teacher) {
         if (!teacherMap.has(teacher)) {
           teacherMap.set(teacher, []);
@@ -246,10 +896,12 @@ function detectConflicts(assignments: Assignment[]): Conflict[] {
       }
     }
 
-    for (const [teacher, conflictingEntries] of teacherMap) {
+    for (const [teacher, entries] of teacherMap) {
+      const conflictingEntries = overlappingEntries(entries, lessonWeeks);
       if (conflictingEntries.length > 1) {
         conflicts.push({
           type: 'teacher',
+          hard: isHardClash(conflictingEntries),
           slot,
           resource: teacher,
           conflictingEntries
@@ -260,7 +912,7 @@ function detectConflicts(assignments: Assignment[]): Conflict[] {
     // Check for room conflicts
     const roomMap = new Map<string, Assignment[]>();
     for (const assignment of slotAssignments) {
-      const room = (assignment.room || "").trim();
+      const room = effectiveRoom(assignment);
       if (room) {
         if (!roomMap.has(room)) {
           roomMap.set(room, []);
@@ -269,10 +921,12 @@ function detectConflicts(assignments: Assignment[]): Conflict[] {
       }
     }
 
-    for (const [room, conflictingEntries] of roomMap) {
+    for (const [room, entries] of roomMap) {
+      const conflictingEntries = overlappingEntries(entries, lessonWeeks);
       if (conflictingEntries.length > 1) {
         conflicts.push({
           type: 'room',
+          hard: isHardClash(conflictingEntries),
           slot,
           resource: room,
           conflictingEntries
@@ -280,11 +934,10 @@ function detectConflicts(assignments: Assignment[]): Conflict[] {
       }
     }
 
-    // Check for group conflicts
+    // Check for group conflicts, one entry per clashing individual group
     const groupMap = new Map<string, Assignment[]>();
     for (const assignment of slotAssignments) {
-      const group = (assignment.group || "").trim();
-      if (group) {
+      for (const group of lessonGroups(assignment.group, groupHierarchy)) {
         if (!groupMap.has(group)) {
           groupMap.set(group, []);
         }
@@ -292,10 +945,12 @@ function detectConflicts(assignments: Assignment[]): Conflict[] {
       }
     }
 
-    for (const [group, conflictingEntries] of groupMap) {
+    for (const [group, entries] of groupMap) {
+      const conflictingEntries = overlappingEntries(entries, lessonWeeks);
       if (conflictingEntries.length > 1) {
         conflicts.push({
           type: 'group',
+          hard: isHardClash(conflictingEntries),
           slot,
           resource: group,
           conflictingEntries
@@ -304,57 +959,123 @@ function detectConflicts(assignments: Assignment[]): Conflict[] {
     }
   }
 
+  // Check each placement against the uploaded constraints; room fit is
+  // checked once per lesson, teacher availability in every period
+  for (const assignment of assignments) {
+    const placed = { ...assignment, teacher: effectiveTeacher(assignment), room: effectiveRoom(assignment) };
+    for (const [n, slot] of assignment.assignedSlots.entries()) {
+      for (const violation of checkConstraints(placed, slot, constraints, calendar)) {
+        if (n > 0 && violation.type !== 'unavailable') continue;
+        conflicts.push({
+          type: violation.type,
+          slot,
+          resource: violation.resource,
+          conflictingEntries: [assignment],
+          detail: violation.detail
+        });
+      }
+    }
+  }
+
   return conflicts;
 }
 
+function isHardClash(entries: Assignment[]): boolean | undefined {
+  return entries.filter(e => e.locked).length >= 2 || undefined;
+}
+
+export type ViewKind = 'teacher' | 'room' | 'group';
+
+// Split assignments into one timetable per teacher, room or group. Group views
+// include lessons for any parent group, e.g. a "CS" lecture appears under "CS1".
+export function partitionAssignments(
+  assignments: Assignment[],
+  by: ViewKind,
+  groupHierarchy: GroupHierarchy = {}
+): Map<string, Assignment[]> {
+  const views = new Map<string, Assignment[]>();
+  const add = (key: string, assignment: Assignment) => {
+    if (!key) return;
+    if (!views.has(key)) views.set(key, []);
+    views.get(key)!.push(assignment);
+  };
+  for (const assignment of assignments) {
+    // One timetable per person, room or group, however each upload spelled it
+    const named = withCanonicalNames(assignment);
+    if (by === 'teacher') add(effectiveTeacher(named), assignment);
+    else if (by === 'room') add(effectiveRoom(named), assignment);
+    else lessonGroups(named.group, groupHierarchy).forEach(g => add(g, assignment));
+  }
+  return new Map([...views.entries()].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+// Whether the solver moved a lesson away from its uploaded slot or room
+export function isMoved(assignment: Assignment, calendar: SchoolCalendar = DEFAULT_CALENDAR): boolean {
+  return !!assignment.assignedRoom || !!assignment.assignedTeacher || slotFromRow(assignment, calendar) !== assignment.assignedSlot;
+}
+
+// Note shown on a changed lesson in the exports: where it moved from, or
+// what changed in its slot
+export function changeNote(assignment: Assignment, calendar: SchoolCalendar = DEFAULT_CALENDAR): string {
+  const from = slotFromRow(assignment, calendar);
+  if (from !== assignment.assignedSlot) return `Moved from ${from}`;
+  if (assignment.assignedTeacher) return assignment.assignedRoom ? "Substitute teacher, room changed" : "Substitute teacher";
+  return assignment.assignedRoom ? "Room changed" : "";
+}
+
 // Utility function to get a clean timetable view
 export function getTimetableView(assignments: Assignment[]): Map<string, Map<string, Assignment[]>> {
   const timetableView = new Map<string, Map<string, Assignment[]>>();
   
+  // Lessons over several periods appear in each of them
   for (const assignment of assignments) {
-    if (!assignment.assignedSlot) continue;
-    
-    const [day, period] = assignment.assignedSlot.split('-');
-    
-    if (!timetableView.has(day)) {
-      timetableView.set(day, new Map());
-    }
-    
-    const dayMap = timetableView.get(day)!;
-    if (!dayMap.has(period)) {
-      dayMap.set(period, []);
+    for (const slot of assignment.assignedSlots) {
+      const [day, period] = splitSlot(slot);
+
+      if (!timetableView.has(day)) {
+        timetableView.set(day, new Map());
+      }
+
+      const dayMap = timetableView.get(day)!;
+      if (!dayMap.has(period)) {
+        dayMap.set(period, []);
+      }
+
+      dayMap.get(period)!.push(assignment);
     }
-    
-    dayMap.get(period)!.push(assignment);
   }
   
   return timetableView;
 }
 
 // Enhanced function to display timetable in a readable format
-export function displayTimetable(assignments: Assignment[]): string {
+export function displayTimetable(assignments: Assignment[], calendar: SchoolCalendar = DEFAULT_CALENDAR): string {
   const timetableView = getTimetableView(assignments);
+  const periodCount = maxPeriods(calendar);
+  const width = 10 + periodCount * 15;
   let output = "TIMETABLE VIEW:\n";
-  output += "=".repeat(80) + "\n\n";
+  output += "=".repeat(width) + "\n\n";
   
-  // Header
+  // Header (period numbers; days with fewer periods leave trailing cells blank)
   output += "Day".padEnd(10);
-  PERIODS.forEach(period => {
-    output += period.padEnd(15);
-  });
+  for (let p = 0; p < periodCount; p++) {
+    output += `P${p + 1}`.padEnd(15);
+  }
   output += "\n";
-  output += "-".repeat(80) + "\n";
+  output += "-".repeat(width) + "\n";
   
   // Content
-  DAYS.forEach(day => {
-    output += day.padEnd(10);
-    const dayMap = timetableView.get(day);
+  calendar.days.forEach(day => {
+    output += day.id.padEnd(10);
+    const dayMap = timetableView.get(day.id);
     
-    PERIODS.forEach(period => {
-      const assignments = dayMap?.get(period) || [];
+    day.periods.forEach(period => {
+      const assignments = dayMap?.get(period.id) || [];
       let cellContent = "";
       
-      if (assignments.length === 0) {
+      if (calendar.blocked.has(`${day.id}-${period.id}`)) {
+        cellContent = assignments.length === 0 ? "(blocked)" : `! ${assignments[0].subject || 'N/A'}`;
+      } else if (assignments.length === 0) {
         cellContent = "-";
       } else if (assignments.length === 1) {
         const a = assignments[0];
@@ -368,6 +1089,16 @@ export function displayTimetable(assignments: Assignment[]): string {
     
     output += "\n";
   });
+
+  // Named periods / clock times legend
+  const legend = calendar.days.flatMap(day =>
+    day.periods
+      .filter(p => p.label || p.start)
+      .map(p => `  ${day.id} ${p.id}: ${periodLabel(p)}`)
+  );
+  if (legend.length > 0) {
+    output += "\nPeriods:\n" + legend.join("\n") + "\n";
+  }
   
   return output;
 }
@@ -387,60 +1118,10 @@ export function formatConflicts(conflicts: Conflict[]): string {
     
     for (const entry of conflict.conflictingEntries) {
       output += `  - ${entry.subject || 'Unknown Subject'} (Group: ${entry.group || 'N/A'}) `;
-      output += `taught by ${entry.teacher || 'N/A'} in ${entry.room || 'N/A'}\n`;
+      output += `taught by ${entry.teacher || 'N/A'} in ${roomText(entry) || 'N/A'}\n`;
     }
     output += '\n';
   }
   
   return output;
 }
-
-export async function assignmentsToDocx(assignments: Assignment[], filename: string): Promise<Buffer> {
-  const tableRows = [
-    new TableRow({
-      children: [
-        new TableCell({ children: [new Paragraph("Day")] }),
-        new TableCell({ children: [new Paragraph("Period")] }),
-        new TableCell({ children: [new Paragraph("Assigned Slot")] }),
-        new TableCell({ children: [new Paragraph("Subject")] }),
-        new TableCell({ children: [new Paragraph("Teacher")] }),
-        new TableCell({ children: [new Paragraph("Group")] }),
-        new TableCell({ children: [new Paragraph("Room")] }),
-      ],
-    }),
-    ...assignments.map(a => new TableRow({
-      children: [
-        new TableCell({ children: [new Paragraph(a.day || "")] }),
-        new TableCell({ children: [new Paragraph(a.period || "")] }),
-        new TableCell({ children: [new Paragraph(a.assignedSlot || "")] }),
-        new TableCell({ children: [new Paragraph(a.subject || "")] }),
-        new TableCell({ children: [new Paragraph(a.teacher || "")] }),
-        new TableCell({ children: [new Paragraph(a.group || "")] }),
-        new TableCell({ children: [new Paragraph(a.room || "")] }),
-      ],
-    }))
-  ];
-
-  const doc = new Document({
-    sections: [
-      {
-        properties: {},
-        children: [
-          new Paragraph({ 
-            children: [new TextRun({ text: filename, bold: true, size: 24 })]
-          }),
-          new Paragraph({ text: "" }), // Empty paragraph for spacing
-          new Table({ 
-            rows: tableRows,
-            width: {
-              size: 100,
-              type: "pct"
-            }
-          })
-        ],
-      },
-    ],
-  });
-  
-  return await Packer.toBuffer(doc);
-}
\ No newline at end of file
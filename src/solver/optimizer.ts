@@ -0,0 +1,221 @@
+import { SchoolCalendar, calendarSlots, isSchedulableSlot, slotDistance, spanSlots } from "./calendar";
+import { PreferenceTracker } from "./preferences";
+import { LessonWeeks, weeksOverlap } from "./weeks";
+
+export type SolverLesson = {
+  original: string; // slot the lesson was uploaded in
+  resources: string[]; // resource keys, e.g. "teacher:Ade", "room:R12", "group:CS1"
+  unavailable?: Set<string>; // slots this lesson must not use
+  fixed?: boolean; // never moved away from its original slot
+  moveWeight?: number; // multiplies the cost of moving this lesson (default 1)
+  length?: number; // consecutive periods covered from the start slot (default 1)
+  weeks?: LessonWeeks; // weeks the lesson meets in (default every week)
+};
+
+export type OptimizeOptions = {
+  timeBudgetMs?: number; // wall-clock limit for the search (default 2000)
+  seed?: number; // same seed + same input => same result, unless the time budget cuts the search short
+  maxIterations?: number;
+};
+
+// A single clash always outweighs any amount of moving lessons around
+const CLASH_WEIGHT = 100000;
+const MOVE_WEIGHT = 100;
+// Soft preferences choose between slots but are not worth moving a lesson for
+const SOFT_WEIGHT = 10;
+const TABU_TENURE = 8;
+const NOISE = 0.05;
+const SAMPLE_SIZE = 8;
+
+// Small deterministic PRNG (mulberry32) so runs are reproducible
+function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Tabu local search over slot assignments. Minimises clashes first, then the
+// number of moved lessons, then broken soft preferences and how far each
+// lesson moved. Returns one slot per lesson.
+export function optimizeSlots(
+  lessons: SolverLesson[],
+  calendar: SchoolCalendar,
+  options: OptimizeOptions = {},
+  preferences?: PreferenceTracker
+): string[] {
+  const rng = createRng(options.seed ?? 1);
+  const deadline = Date.now() + (options.timeBudgetMs ?? 2000);
+  const maxIterations = options.maxIterations ?? Math.max(1000, lessons.length * 200);
+  const candidates = calendarSlots(calendar).filter(slot => isSchedulableSlot(slot, calendar));
+
+  const slots = lessons.map(l => l.original);
+  // slot -> resource -> lessons holding it there
+  const usage = new Map<string, Map<string, Set<number>>>();
+  const sameWeeks = (i: number, j: number) => {
+    const a = lessons[i].weeks;
+    const b = lessons[j].weeks;
+    return !a || !b || weeksOverlap(a, b);
+  };
+
+  // Slots a lesson starting at slot covers; a lesson running past the end of
+  // the day only covers its start and is penalised in forbidden()
+  const spans = new Map<string, string[] | null>();
+  const coveredSlots = (i: number, slot: string): string[] => {
+    const length = lessons[i].length ?? 1;
+    if (length === 1) return [slot];
+    const key = `${length}@${slot}`;
+    if (!spans.has(key)) spans.set(key, spanSlots(slot, length, calendar));
+    return spans.get(key) || [slot];
+  };
+
+  const use = (i: number, slot: string, delta: number) => {
+    if (delta > 0) preferences?.add(i, slot);
+    else preferences?.remove(i, slot);
+    for (const covered of coveredSlots(i, slot)) {
+      if (!usage.has(covered)) usage.set(covered, new Map());
+      const slotUsage = usage.get(covered)!;
+      for (const r of lessons[i].resources) {
+        if (!slotUsage.has(r)) slotUsage.set(r, new Set());
+        if (delta > 0) slotUsage.get(r)!.add(i);
+        else slotUsage.get(r)!.delete(i);
+      }
+    }
+  };
+
+  // Penalties that belong to the lesson alone (blocked or unavailable slots,
+  // or a block of periods that does not fit in the day)
+  const forbidden = (i: number, slot: string): number => {
+    const length = lessons[i].length ?? 1;
+    let count = length > 1 && !spanSlots(slot, length, calendar) ? 1 : 0;
+    for (const covered of coveredSlots(i, slot)) {
+      count += (isSchedulableSlot(covered, calendar) ? 0 : 1) + (lessons[i].unavailable?.has(covered) ? 1 : 0);
+    }
+    return count;
+  };
+
+  // Clashes lesson i would have starting at slot, not counting itself
+  const clashes = (i: number, slot: string): number => {
+    let count = forbidden(i, slot);
+    for (const covered of coveredSlots(i, slot)) {
+      const slotUsage = usage.get(covered);
+      if (!slotUsage) continue;
+      for (const r of lessons[i].resources) {
+        for (const j of slotUsage.get(r) || []) if (j !== i && sameWeeks(i, j)) count++;
+      }
+    }
+    return count;
+  };
+
+  const displacement = (i: number, slot: string): number =>
+    slot === lessons[i].original
+      ? 0
+      : (MOVE_WEIGHT + slotDistance(lessons[i].original, slot, calendar)) * (lessons[i].moveWeight ?? 1);
+
+  const placementCost = (i: number, slot: string) =>
+    CLASH_WEIGHT * clashes(i, slot) + displacement(i, slot) + SOFT_WEIGHT * (preferences?.cost(i, slot, slots[i]) ?? 0);
+
+  const move = (i: number, slot: string) => {
+    use(i, slots[i], -1);
+    slots[i] = slot;
+    use(i, slot, 1);
+  };
+
+  lessons.forEach((_, i) => use(i, slots[i], 1));
+
+  // Pairwise clashes are counted once per pair, forbidden slots once per lesson
+  const totalCost = () => {
+    let cost = 0;
+    lessons.forEach((_, i) => {
+      const own = clashes(i, slots[i]);
+      const solo = forbidden(i, slots[i]);
+      cost += CLASH_WEIGHT * ((own - solo) / 2 + solo) + displacement(i, slots[i]);
+    });
+    return cost + SOFT_WEIGHT * (preferences?.total() ?? 0);
+  };
+
+  // Pull displaced lessons back towards their original slot wherever that is clash-free
+  const polish = (): boolean => {
+    let improved = false;
+    lessons.forEach((_, i) => {
+      if (slots[i] === lessons[i].original) return;
+      let bestSlot = slots[i];
+      let bestCost = placementCost(i, slots[i]);
+      for (const slot of [lessons[i].original, ...candidates]) {
+        const cost = placementCost(i, slot);
+        if (cost < bestCost) {
+          bestCost = cost;
+          bestSlot = slot;
+        }
+      }
+      if (bestSlot !== slots[i]) {
+        move(i, bestSlot);
+        improved = true;
+      }
+    });
+    return improved;
+  };
+
+  let cost = totalCost();
+  let bestCost = cost;
+  let best = slots.slice();
+  const tabu = new Map<string, number>();
+
+  for (let iter = 0; iter < maxIterations && Date.now() < deadline; iter++) {
+    const conflicted = lessons.map((_, i) => i).filter(i => !lessons[i].fixed && clashes(i, slots[i]) > 0);
+
+    if (conflicted.length === 0) {
+      if (!polish()) break;
+      cost = totalCost();
+    } else {
+      // Evaluate a sample of conflicted lessons and take the best single move among them
+      const sample = conflicted.length <= SAMPLE_SIZE
+        ? conflicted
+        : Array.from({ length: SAMPLE_SIZE }, () => conflicted[Math.floor(rng() * conflicted.length)]);
+
+      let chosen: { i: number; slot: string; delta: number } | null = null;
+      let ties = 0;
+      if (rng() < NOISE) {
+        const i = sample[Math.floor(rng() * sample.length)];
+        const choices = [lessons[i].original, ...candidates].filter(s => s !== slots[i]);
+        if (choices.length > 0) {
+          const slot = choices[Math.floor(rng() * choices.length)];
+          chosen = { i, slot, delta: placementCost(i, slot) - placementCost(i, slots[i]) };
+        }
+      } else {
+        for (const i of new Set(sample)) {
+          const currentCost = placementCost(i, slots[i]);
+          for (const slot of [lessons[i].original, ...candidates]) {
+            if (slot === slots[i]) continue;
+            const delta = placementCost(i, slot) - currentCost;
+            const isTabu = (tabu.get(`${i}@${slot}`) || 0) > iter;
+            if (isTabu && cost + delta >= bestCost) continue;
+            if (!chosen || delta < chosen.delta) {
+              chosen = { i, slot, delta };
+              ties = 1;
+            } else if (delta === chosen.delta && rng() < 1 / ++ties) {
+              chosen = { i, slot, delta };
+            }
+          }
+        }
+      }
+      if (!chosen) continue;
+
+      const current = slots[chosen.i];
+      move(chosen.i, chosen.slot);
+      tabu.set(`${chosen.i}@${current}`, iter + TABU_TENURE);
+      cost += chosen.delta;
+    }
+
+    if (cost < bestCost) {
+      bestCost = cost;
+      best = slots.slice();
+    }
+  }
+
+  return best;
+}
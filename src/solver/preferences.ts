@@ -0,0 +1,241 @@
+import { SchoolCalendar, slotPosition, spanSlots } from "./calendar";
+
+// Soft preferences never rule a slot out; breaking them only makes a slot
+// less attractive when a lesson has to move, and lowers the quality score
+export type SoftPreferences = {
+  maxTeacherPeriodsPerDay?: number;
+  maxConsecutivePeriods?: number; // teacher periods in a row
+  maxStudentGap?: number; // idle periods allowed between a group's lessons on a day
+  spreadSubjects?: boolean; // at most one lesson of a subject per group per day
+};
+
+export type PreferenceViolation = {
+  type: 'teacher-load' | 'consecutive' | 'student-gap' | 'subject-spread';
+  resource: string;
+  day: string;
+  amount: number; // periods (or lessons) over the preference
+  detail: string;
+};
+
+// score is 100 when every preference is met and falls as violations grow
+// relative to the number of lessons
+export type TimetableQuality = {
+  source: string;
+  lessons: number;
+  penalty: number;
+  score: number;
+};
+
+export type QualityReport = {
+  score: number;
+  penalty: number;
+  violations: PreferenceViolation[];
+  timetables: TimetableQuality[];
+};
+
+// What the preferences need to know about a lesson
+export type PreferenceLesson = {
+  teacher: string;
+  groups: string[];
+  subject: string;
+  length: number;
+};
+
+// Incremental penalty bookkeeping for the solvers: lessons are added and
+// removed as they are placed, and cost() prices a candidate slot
+export type PreferenceTracker = {
+  add(lesson: number, slot: string): void;
+  remove(lesson: number, slot: string): void;
+  cost(lesson: number, slot: string, current?: string): number;
+  total(): number;
+};
+
+export function hasPreferences(prefs: SoftPreferences | undefined): boolean {
+  return !!prefs && (
+    prefs.maxTeacherPeriodsPerDay !== undefined ||
+    prefs.maxConsecutivePeriods !== undefined ||
+    prefs.maxStudentGap !== undefined ||
+    !!prefs.spreadSubjects
+  );
+}
+
+// Keys group what each preference looks at:
+//   t|<teacher>|<day>  periods the teacher teaches that day
+//   g|<group>|<day>    periods the group is taught that day
+//   s|<group>|<subject>|<day>  lessons of the subject the group has that day
+type DayKey = { key: string; period?: number };
+
+function splitKey(key: string): { kind: string; resource: string; subject?: string; day: string } {
+  const parts = key.split("|");
+  return parts[0] === "s"
+    ? { kind: "s", resource: parts[1], subject: parts[2], day: parts[3] }
+    : { kind: parts[0], resource: parts[1], day: parts[2] };
+}
+
+function runs(periods: number[]): number[][] {
+  const out: number[][] = [];
+  for (const p of periods) {
+    const last = out[out.length - 1];
+    if (last && p === last[last.length - 1] + 1) last.push(p);
+    else out.push([p]);
+  }
+  return out;
+}
+
+// Violations for one key given its sorted periods (or lesson count)
+function keyViolations(key: string, periods: number[], count: number, prefs: SoftPreferences): PreferenceViolation[] {
+  const { kind, resource, subject, day } = splitKey(key);
+  const out: PreferenceViolation[] = [];
+  if (kind === "t") {
+    const max = prefs.maxTeacherPeriodsPerDay;
+    if (max !== undefined && periods.length > max) {
+      out.push({
+        type: 'teacher-load', resource, day, amount: periods.length - max,
+        detail: `${resource} teaches ${periods.length} periods on ${day} (at most ${max} wanted)`
+      });
+    }
+    const maxRun = prefs.maxConsecutivePeriods;
+    for (const run of maxRun !== undefined ? runs(periods) : []) {
+      if (run.length <= maxRun!) continue;
+      out.push({
+        type: 'consecutive', resource, day, amount: run.length - maxRun!,
+        detail: `${resource} teaches ${run.length} periods in a row on ${day} (at most ${maxRun} wanted)`
+      });
+    }
+  } else if (kind === "g" && prefs.maxStudentGap !== undefined) {
+    for (let i = 1; i < periods.length; i++) {
+      const gap = periods[i] - periods[i - 1] - 1;
+      if (gap <= prefs.maxStudentGap) continue;
+      out.push({
+        type: 'student-gap', resource, day, amount: gap - prefs.maxStudentGap,
+        detail: `${resource} waits ${gap} free periods between lessons on ${day} (at most ${prefs.maxStudentGap} wanted)`
+      });
+    }
+  } else if (kind === "s" && prefs.spreadSubjects && count > 1) {
+    out.push({
+      type: 'subject-spread', resource, day, amount: count - 1,
+      detail: `${resource} has ${count} ${subject} lessons on ${day}`
+    });
+  }
+  return out;
+}
+
+export function preferenceTracker(
+  lessons: PreferenceLesson[],
+  prefs: SoftPreferences,
+  calendar: SchoolCalendar
+): PreferenceTracker & { breakdown(): { lessons: number[]; violations: PreferenceViolation[] }[] } {
+  const active = hasPreferences(prefs);
+  // key -> period -> lessons covering it; subject keys count lesson starts under period -1
+  const usage = new Map<string, Map<number, number>>();
+  const members = new Map<string, Set<number>>();
+  const penalties = new Map<string, number>();
+
+  const dayKeys = (i: number, slot: string): DayKey[] => {
+    const lesson = lessons[i];
+    const keys: DayKey[] = [];
+    for (const covered of spanSlots(slot, lesson.length, calendar) || [slot]) {
+      const position = slotPosition(covered, calendar);
+      if (!position) continue;
+      const day = calendar.days[position[0]].id;
+      if (lesson.teacher) keys.push({ key: `t|${lesson.teacher}|${day}`, period: position[1] });
+      for (const g of lesson.groups) keys.push({ key: `g|${g}|${day}`, period: position[1] });
+    }
+    const start = slotPosition(slot, calendar);
+    if (start && lesson.subject) {
+      const day = calendar.days[start[0]].id;
+      for (const g of lesson.groups) keys.push({ key: `s|${g}|${lesson.subject}|${day}` });
+    }
+    return keys;
+  };
+
+  const sorted = (key: string) => [...(usage.get(key)?.keys() || [])].filter(p => p >= 0).sort((a, b) => a - b);
+  const count = (key: string) => usage.get(key)?.get(-1) || 0;
+  const penalty = (key: string) => {
+    if (!penalties.has(key)) {
+      const amount = keyViolations(key, sorted(key), count(key), prefs).reduce((sum, v) => sum + v.amount, 0);
+      penalties.set(key, amount);
+    }
+    return penalties.get(key)!;
+  };
+
+  const update = (i: number, slot: string, delta: number) => {
+    for (const { key, period = -1 } of dayKeys(i, slot)) {
+      if (!usage.has(key)) usage.set(key, new Map());
+      const periods = usage.get(key)!;
+      const next = (periods.get(period) || 0) + delta;
+      if (next > 0) periods.set(period, next);
+      else periods.delete(period);
+      if (!members.has(key)) members.set(key, new Set());
+      if (delta > 0) members.get(key)!.add(i);
+      else members.get(key)!.delete(i);
+      penalties.delete(key);
+    }
+  };
+
+  return {
+    add: (i, slot) => active && update(i, slot, 1),
+    remove: (i, slot) => active && update(i, slot, -1),
+    // Extra penalty from placing lesson i at slot, moving it from current
+    cost(i, slot, current) {
+      if (!active) return 0;
+      if (current) update(i, current, -1);
+      const keys = [...new Set(dayKeys(i, slot).map(k => k.key))];
+      const before = keys.reduce((sum, k) => sum + penalty(k), 0);
+      update(i, slot, 1);
+      const after = keys.reduce((sum, k) => sum + penalty(k), 0);
+      update(i, slot, -1);
+      if (current) update(i, current, 1);
+      return after - before;
+    },
+    total: () => [...usage.keys()].reduce((sum, k) => sum + penalty(k), 0),
+    // Violations per key, with the lessons involved
+    breakdown: () => [...usage.keys()]
+      .map(k => ({ lessons: [...(members.get(k) || [])], violations: keyViolations(k, sorted(k), count(k), prefs) }))
+      .filter(entry => entry.violations.length > 0)
+  };
+}
+
+function score(lessons: number, penalty: number): number {
+  return lessons === 0 ? 100 : Math.round((100 * lessons) / (lessons + penalty));
+}
+
+// Score placed lessons against the preferences, overall and for each
+// source timetable; a violation counts against every timetable with a
+// lesson involved in it
+export function assessQuality(
+  lessons: PreferenceLesson[],
+  slots: string[],
+  sources: string[],
+  prefs: SoftPreferences | undefined,
+  calendar: SchoolCalendar
+): QualityReport {
+  const tracker = preferenceTracker(lessons, prefs || {}, calendar);
+  slots.forEach((slot, i) => tracker.add(i, slot));
+  const penalty: Record<string, number> = {};
+  const lessonCount: Record<string, number> = {};
+  sources.forEach(source => {
+    lessonCount[source] = (lessonCount[source] || 0) + 1;
+    penalty[source] = 0;
+  });
+
+  const violations: PreferenceViolation[] = [];
+  for (const entry of tracker.breakdown()) {
+    violations.push(...entry.violations);
+    const amount = entry.violations.reduce((sum, v) => sum + v.amount, 0);
+    for (const source of new Set(entry.lessons.map(i => sources[i]))) penalty[source] += amount;
+  }
+  const total = violations.reduce((sum, v) => sum + v.amount, 0);
+
+  return {
+    score: score(lessons.length, total),
+    penalty: total,
+    violations,
+    timetables: Object.keys(lessonCount).map(source => ({
+      source,
+      lessons: lessonCount[source],
+      penalty: penalty[source],
+      score: score(lessonCount[source], penalty[source])
+    }))
+  };
+}
@@ -0,0 +1,33 @@
+import { TimetableRow, sourceKey } from "../parsers";
+
+// Matches rows to pin; every field given must match (case-insensitive)
+export type PinRule = {
+  sourceFile?: string;
+  sourceSheet?: string;
+  subject?: string;
+  teacher?: string;
+  group?: string;
+  room?: string;
+  day?: string;
+  period?: string;
+};
+
+const PIN_FIELDS: (keyof PinRule)[] = ["sourceFile", "sourceSheet", "subject", "teacher", "group", "room", "day", "period"];
+
+export function isPinned(row: TimetableRow, rules: PinRule[] = []): boolean {
+  if (row.locked) return true;
+  return rules.some(rule => {
+    const fields = PIN_FIELDS.filter(f => rule[f] !== undefined && rule[f] !== "");
+    return fields.length > 0 && fields.every(f =>
+      (row[f] || "").trim().toLowerCase() === String(rule[f]).trim().toLowerCase()
+    );
+  });
+}
+
+// 0 is the highest priority; files not listed rank below every listed file.
+// Entries may name a whole file or one sheet of it, as "file.xlsx (Sheet)".
+export function priorityRank(row: TimetableRow, filePriority: string[] = []): number {
+  const bySheet = filePriority.indexOf(sourceKey(row));
+  const index = bySheet !== -1 ? bySheet : filePriority.indexOf(row.sourceFile || "");
+  return index === -1 ? filePriority.length : index;
+}
@@ -0,0 +1,94 @@
+import { TimetableRow } from "../parsers";
+import { GroupHierarchy, lessonGroups } from "./groups";
+import { SchedulingConstraints, roomSuits } from "./constraints";
+import { WeekBookings, book, isBooked, lessonWeeks } from "./weeks";
+
+export type RoomChange = { index: number; from: string; to: string };
+
+// Every room the solver may hand out: rooms used in the uploads, the optional
+// catalogue, and rooms named in the constraints file
+export function collectRooms(rows: TimetableRow[], catalogue: string[], constraints: SchedulingConstraints): string[] {
+  const rooms = new Set<string>();
+  for (const row of rows) {
+    const room = (row.room || "").trim();
+    if (room) rooms.add(room);
+  }
+  for (const room of catalogue) if (room.trim()) rooms.add(room.trim());
+  for (const room of Object.keys(constraints.roomCapacity)) rooms.add(room);
+  for (const room of Object.keys(constraints.roomFeatures)) rooms.add(room);
+  return [...rooms];
+}
+
+// Rank candidate rooms by how closely they match the original room: same
+// features first, then the smallest capacity that still fits
+function rankRooms(original: string, rooms: string[], constraints: SchedulingConstraints): string[] {
+  const features = new Set((constraints.roomFeatures[original] || []).map(f => f.toLowerCase()));
+  const featureScore = (room: string) =>
+    (constraints.roomFeatures[room] || []).filter(f => features.has(f.toLowerCase())).length;
+  return [...rooms].sort((a, b) =>
+    featureScore(b) - featureScore(a) ||
+    (constraints.roomCapacity[a] ?? Infinity) - (constraints.roomCapacity[b] ?? Infinity) ||
+    a.localeCompare(b)
+  );
+}
+
+// For lessons that clash with another lesson only on the room, find a room
+// free and suitable in every slot the lesson covers. `order` lists row
+// indexes from the lesson that keeps its room first; locked rows never
+// change room.
+export function reassignRooms(
+  rows: (TimetableRow & { assignedRoom?: string })[],
+  spans: string[][],
+  order: number[],
+  rooms: string[],
+  groupHierarchy: GroupHierarchy,
+  constraints: SchedulingConstraints
+): RoomChange[] {
+  const changes: RoomChange[] = [];
+  type SlotUse = { teachers: WeekBookings; groups: WeekBookings; rooms: WeekBookings; booked: WeekBookings };
+  const bySlot = new Map<string, SlotUse>();
+  const slotUse = (slot: string) => {
+    if (!bySlot.has(slot)) bySlot.set(slot, { teachers: new Map(), groups: new Map(), rooms: new Map(), booked: new Map() });
+    return bySlot.get(slot)!;
+  };
+
+  // Rooms booked by anyone in a slot stay off-limits so nobody's room is taken
+  rows.forEach((row, index) => {
+    const room = (row.assignedRoom || row.room || "").trim();
+    if (room) for (const slot of spans[index] || []) book(slotUse(slot).booked, room, lessonWeeks(row));
+  });
+
+  for (const index of order) {
+    const span = spans[index] || [];
+    if (span.length === 0) continue;
+    const row = rows[index];
+    const teacher = (row.teacher || "").trim();
+    const room = (row.assignedRoom || row.room || "").trim();
+    const rowGroups = lessonGroups(row.group, groupHierarchy);
+    const weeks = lessonWeeks(row);
+    const uses = span.map(slotUse);
+    const otherClash = uses.some(u =>
+      (teacher && isBooked(u.teachers, teacher, weeks)) || rowGroups.some(g => isBooked(u.groups, g, weeks))
+    );
+
+    let finalRoom = room;
+    if (room && uses.some(u => isBooked(u.rooms, room, weeks)) && !otherClash && !row.locked) {
+      const candidates = rooms.filter(r =>
+        uses.every(u => !isBooked(u.booked, r, weeks) && !isBooked(u.rooms, r, weeks)) && roomSuits(row, r, constraints)
+      );
+      const replacement = rankRooms(room, candidates, constraints)[0];
+      if (replacement) {
+        finalRoom = replacement;
+        changes.push({ index, from: room, to: replacement });
+      }
+    }
+
+    for (const use of uses) {
+      if (teacher) book(use.teachers, teacher, weeks);
+      rowGroups.forEach(g => book(use.groups, g, weeks));
+      if (finalRoom) book(use.rooms, finalRoom, weeks);
+    }
+  }
+
+  return changes;
+}
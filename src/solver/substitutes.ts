@@ -0,0 +1,123 @@
+import { Assignment, Move, effectiveTeacher } from "./assignments";
+import { SchoolCalendar } from "./calendar";
+import { SchedulingConstraints, unavailableSlots } from "./constraints";
+import { lessonWeeks, weeksOverlap } from "./weeks";
+
+// Teacher -> subjects they can teach, e.g. { "Dr. A. Bello": ["CS101", "CS102"] }
+export type Qualifications = Record<string, string[]>;
+
+export type SubstituteCandidate = {
+  teacher: string;
+  load: number; // periods the teacher already teaches in the resolved timetables
+};
+
+// A double-booked lesson no time or room change could fix, with the
+// qualified teachers free to cover it, least loaded first
+export type Substitution = {
+  entry: Assignment;
+  teacher: string; // the double-booked teacher
+  slot: string;
+  candidates: SubstituteCandidate[];
+  applied?: string; // the candidate now teaching the lesson, when substitutes are applied
+};
+
+const MAX_CANDIDATES = 5;
+
+// "CS 101" and "cs101" are the same subject
+function subjectKey(subject: string | undefined): string {
+  return (subject || "").toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+// Look for cover for every lesson left double-booked on its teacher. `order`
+// lists assignment indexes from the lesson that keeps its teacher first, so
+// lower-priority lessons are covered first. With apply, the best candidate
+// is recorded as applied and the lesson's move is replaced by one recording
+// the teacher change; lessons whose clash that settles lose their unresolved
+// move. Nothing passed in is changed: the caller hands applied substitutes
+// their lessons.
+export function findSubstitutes(
+  assignments: Assignment[],
+  moves: Move[],
+  qualifications: Qualifications,
+  order: number[],
+  constraints: SchedulingConstraints,
+  calendar: SchoolCalendar,
+  apply: boolean
+): { substitutions: Substitution[]; moves: Move[] } {
+  const qualified = new Map<string, string[]>();
+  for (const [teacher, subjects] of Object.entries(qualifications)) {
+    for (const subject of subjects) {
+      const key = subjectKey(subject);
+      if (!key) continue;
+      if (!qualified.has(key)) qualified.set(key, []);
+      qualified.get(key)!.push(teacher.trim());
+    }
+  }
+
+  const schedule = new Map<string, Assignment[]>();
+  const load = new Map<string, number>();
+  const take = (teacher: string, a: Assignment, delta: 1 | -1) => {
+    if (!teacher) return;
+    if (!schedule.has(teacher)) schedule.set(teacher, []);
+    if (delta > 0) schedule.get(teacher)!.push(a);
+    else schedule.set(teacher, schedule.get(teacher)!.filter(l => l !== a));
+    load.set(teacher, (load.get(teacher) || 0) + delta * a.assignedSlots.length);
+  };
+  assignments.forEach(a => take(effectiveTeacher(a), a, 1));
+
+  const busy = (teacher: string, a: Assignment) => {
+    const weeks = lessonWeeks(a);
+    return (schedule.get(teacher) || []).some(other =>
+      other !== a &&
+      other.assignedSlots.some(s => a.assignedSlots.includes(s)) &&
+      weeksOverlap(weeks, lessonWeeks(other))
+    );
+  };
+
+  const stuck = new Map<Assignment, Move>();
+  for (const move of moves) {
+    if (!move.to && move.cause?.type === 'teacher') stuck.set(move.entry, move);
+  }
+
+  const substitutions: Substitution[] = [];
+  const settled = new Set<Move>();
+  const covered = new Map<Move, Move>();
+  for (const index of [...order].reverse()) {
+    const entry = assignments[index];
+    const move = stuck.get(entry);
+    if (!move) continue;
+    const teacher = effectiveTeacher(entry);
+    if (!busy(teacher, entry)) {
+      // An earlier substitute took the other lesson
+      if (apply) settled.add(move);
+      continue;
+    }
+
+    const candidates = (qualified.get(subjectKey(entry.subject)) || [])
+      .filter((t, i, all) => all.indexOf(t) === i && t !== teacher)
+      .filter(t => !busy(t, entry) && !entry.assignedSlots.some(s => unavailableSlots(t, constraints, calendar).has(s)))
+      .map(t => ({ teacher: t, load: load.get(t) || 0 }))
+      .sort((a, b) => a.load - b.load || a.teacher.localeCompare(b.teacher))
+      .slice(0, MAX_CANDIDATES);
+    const substitution: Substitution = { entry, teacher, slot: entry.assignedSlot, candidates };
+
+    if (apply && candidates.length > 0) {
+      const cover = candidates[0].teacher;
+      take(teacher, entry, -1);
+      take(cover, entry, 1);
+      substitution.applied = cover;
+      covered.set(move, {
+        ...move,
+        to: move.from,
+        teacherChange: { from: teacher, to: cover },
+        reason: `Teacher changed from ${teacher} to ${cover}: ${move.reason.replace(/^[^:]*:\s*/, "")}`
+      });
+    }
+    substitutions.push(substitution);
+  }
+
+  return {
+    substitutions,
+    moves: moves.filter(m => !settled.has(m)).map(m => covered.get(m) || m)
+  };
+}
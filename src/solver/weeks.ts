@@ -0,0 +1,134 @@
+import { TimetableRow } from "../parsers";
+
+// The weeks a lesson meets in: teaching week numbers (null for every week)
+// and an optional date range, both inclusive. Two lessons in the same period
+// only clash when their weeks overlap.
+export type LessonWeeks = {
+  weeks: Set<number> | null;
+  from?: string; // YYYY-MM-DD
+  to?: string;
+};
+
+// Who holds each teacher, room or group in one period, and in which weeks
+export type WeekBookings = Map<string, LessonWeeks[]>;
+
+export const EVERY_WEEK: LessonWeeks = { weeks: null };
+
+// Week A is the odd teaching weeks, week B the even ones
+const MAX_WEEK = 53;
+
+function weekRange(first: number, last: number, step = 1): number[] {
+  const out: number[] = [];
+  for (let w = first; w <= last; w += step) out.push(w);
+  return out;
+}
+
+// "A", "Week B", "odd", "1-6", "Weeks 1, 3, 5-8", "all"; undefined when the
+// text is not a pattern, null when it means every week
+export function parseWeekPattern(text: string | undefined): Set<number> | null | undefined {
+  const pattern = (text || "")
+    .toLowerCase()
+    .replace(/\b(weeks?|wks?)\b\.?/g, " ")
+    .replace(/\s*[-–]\s*/g, "-")
+    .trim();
+  if (!pattern || /^(all|every|weekly|each)$/.test(pattern)) return null;
+  const weeks = new Set<number>();
+  for (const token of pattern.split(/\s*(?:,|;|&|\band\b|\s)\s*/).filter(Boolean)) {
+    const range = token.match(/^(\d+)(?:[-–](\d+))?$/);
+    if (token === "a" || token === "odd") weekRange(1, MAX_WEEK, 2).forEach(w => weeks.add(w));
+    else if (token === "b" || token === "even") weekRange(2, MAX_WEEK, 2).forEach(w => weeks.add(w));
+    else if (range) {
+      const first = +range[1];
+      const last = range[2] ? +range[2] : first;
+      if (first < 1 || last < first || last > MAX_WEEK) return undefined;
+      weekRange(first, last).forEach(w => weeks.add(w));
+    } else return undefined;
+  }
+  return weeks;
+}
+
+// YYYY-MM-DD, or day first as in 05/01/2026 or 5.1.2026; undefined otherwise
+export function parseLessonDate(text: string | undefined): string | undefined {
+  const value = (text || "").trim();
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (!iso && !dayFirst) return undefined;
+  const [year, month, day] = iso ? [+iso[1], +iso[2], +iso[3]] : [+dayFirst![3], +dayFirst![2], +dayFirst![1]];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return date.toISOString().slice(0, 10);
+}
+
+// Why a row's weeks or dates cannot be used, if they cannot
+export function weeksRejection(row: TimetableRow): string | null {
+  if (parseWeekPattern(row.weeks) === undefined) return `Unrecognised week pattern "${row.weeks}"`;
+  const from = parseLessonDate(row.startDate);
+  const to = parseLessonDate(row.endDate);
+  if ((row.startDate || "").trim() && !from) return `Unrecognised start date "${row.startDate}"`;
+  if ((row.endDate || "").trim() && !to) return `Unrecognised end date "${row.endDate}"`;
+  if (from && to && from > to) return `Start date ${row.startDate} is after end date ${row.endDate}`;
+  return null;
+}
+
+export function lessonWeeks(row: Pick<TimetableRow, "weeks" | "startDate" | "endDate">): LessonWeeks {
+  if (!row.weeks && !row.startDate && !row.endDate) return EVERY_WEEK;
+  return {
+    weeks: parseWeekPattern(row.weeks) ?? null,
+    from: parseLessonDate(row.startDate),
+    to: parseLessonDate(row.endDate)
+  };
+}
+
+export function weeksOverlap(a: LessonWeeks, b: LessonWeeks): boolean {
+  if (a === EVERY_WEEK || b === EVERY_WEEK) return true;
+  if (a.from && b.to && a.from > b.to) return false;
+  if (b.from && a.to && b.from > a.to) return false;
+  if (!a.weeks || !b.weeks) return true;
+  const [small, large] = a.weeks.size <= b.weeks.size ? [a.weeks, b.weeks] : [b.weeks, a.weeks];
+  for (const w of small) if (large.has(w)) return true;
+  return false;
+}
+
+export function isBooked(bookings: WeekBookings, name: string, weeks: LessonWeeks): boolean {
+  return (bookings.get(name) || []).some(other => weeksOverlap(other, weeks));
+}
+
+export function book(bookings: WeekBookings, name: string, weeks: LessonWeeks) {
+  if (!bookings.has(name)) bookings.set(name, []);
+  bookings.get(name)!.push(weeks);
+}
+
+// Entries sharing a resource in one period that meet in the same week as
+// at least one of the others
+export function overlappingEntries<T>(entries: T[], weeksOf: (entry: T) => LessonWeeks): T[] {
+  if (entries.length < 2) return [];
+  const weeks = entries.map(weeksOf);
+  return entries.filter((_, i) => weeks.some((w, j) => j !== i && weeksOverlap(weeks[i], w)));
+}
+
+function formatWeeks(weeks: Set<number>): string {
+  const sorted = [...weeks].sort((a, b) => a - b);
+  const odd = weekRange(1, MAX_WEEK, 2);
+  const even = weekRange(2, MAX_WEEK, 2);
+  if (sorted.length === odd.length && sorted.every((w, i) => w === odd[i])) return "Week A";
+  if (sorted.length === even.length && sorted.every((w, i) => w === even[i])) return "Week B";
+  const runs: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+    runs.push(i === j ? `${sorted[i]}` : `${sorted[i]}-${sorted[j]}`);
+    i = j;
+  }
+  return `${runs.length === 1 && !runs[0].includes("-") ? "Week" : "Weeks"} ${runs.join(", ")}`;
+}
+
+// Short text for exports, e.g. "Week A", "Weeks 1-6" or "Weeks 1-6, from
+// 2026-01-05"; empty for a lesson that meets every week
+export function weekLabel(row: Pick<TimetableRow, "weeks" | "startDate" | "endDate">): string {
+  const { weeks, from, to } = lessonWeeks(row);
+  const parts = weeks ? [formatWeeks(weeks)] : [];
+  if (from && to) parts.push(`${from} to ${to}`);
+  else if (from) parts.push(`from ${from}`);
+  else if (to) parts.push(`until ${to}`);
+  return parts.join(", ");
+}
@@ -0,0 +1,31 @@
+import fs from "fs";
+import path from "path";
+import { ApiError } from "../contract";
+
+// Everything the server keeps between requests lives under one folder,
+// set with UNISYNC_DATA_DIR (default ./data)
+export function dataPath(...parts: string[]): string {
+  return path.resolve(process.env.UNISYNC_DATA_DIR || "data", ...parts);
+}
+
+export function readJsonFile<T>(file: string): T | undefined {
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as T;
+}
+
+export function writeJsonFile(file: string, value: unknown) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  // Write then rename so a crash never leaves half a file behind
+  const temp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(value, null, 2));
+  fs.renameSync(temp, file);
+}
+
+// Names from requests become file names; keep them to safe characters
+export function storageKey(name: string, field: string): string {
+  const key = name.trim().toLowerCase().replace(/[^a-z0-9_-]+/g, "-").replace(/^-+|-+$/g, "");
+  if (!key) {
+    throw new ApiError(400, "invalid_name", `${field} must contain letters or digits`);
+  }
+  return key;
+}
@@ -0,0 +1,28 @@
+import { ColumnMapping, COLUMN_FIELDS } from "../parsers/index";
+import { dataPath, readJsonFile, writeJsonFile, storageKey } from "./index";
+import { ApiError } from "../contract";
+
+// Column mappings confirmed by a department, reused on its later uploads
+export type SavedMapping = {
+  department: string;
+  columns: ColumnMapping;
+  updatedAt: string;
+};
+
+function mappingFile(department: string): string {
+  return dataPath("mappings", `${storageKey(department, "department")}.json`);
+}
+
+export function loadMapping(department: string): SavedMapping | undefined {
+  return readJsonFile<SavedMapping>(mappingFile(department));
+}
+
+export function saveMapping(department: string, columns: ColumnMapping): SavedMapping {
+  const unknown = Object.keys(columns).filter(f => !COLUMN_FIELDS.includes(f as any));
+  if (unknown.length > 0) {
+    throw new ApiError(400, "invalid_columns", `Unknown column field(s): ${unknown.join(", ")}`);
+  }
+  const saved: SavedMapping = { department, columns, updatedAt: new Date().toISOString() };
+  writeJsonFile(mappingFile(department), saved);
+  return saved;
+}
@@ -0,0 +1,242 @@
+import fs from "fs";
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+import { dataPath, readJsonFile, writeJsonFile } from "./index";
+import type { ManualPlacement } from "../solver/index";
+import { ApiError } from "../contract";
+
+// A stored upload; revision goes up each time the file is replaced
+export type ProjectSource = {
+  name: string;
+  size: number;
+  revision: number;
+  uploadedAt: string;
+};
+
+// One resolution run, with the source revisions it was built from
+export type ProjectVersion = {
+  version: number;
+  createdAt: string;
+  reason: string; // e.g. "created", "re-run", "manual adjustment"
+  sources: { name: string; revision: number }[];
+  summary: { assignments: number; moves: number; conflicts: number; rejected: number };
+};
+
+// A timetable project kept on disk under <data>/projects/<id>:
+//   project.json                        this record
+//   sources/<name hash>                 uploaded timetables
+//   constraints/<name hash>             optional constraints file
+//   aliases/<name hash>                 optional alias dictionary
+//   qualifications/<name hash>          optional teacher qualification list
+//   versions/<n>/result.json            resolution as returned by /api/upload/analyze
+//   versions/<n>/resolved_timetables.zip  the download for that run
+export type Project = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  options: Record<string, string>; // upload option fields, replayed on every run
+  sources: ProjectSource[];
+  constraints?: ProjectSource;
+  aliases?: ProjectSource;
+  qualifications?: ProjectSource;
+  manualMoves?: ManualPlacement[]; // lessons placed by hand, kept on every run
+  versions: ProjectVersion[];
+};
+
+export type ProjectSummary = Pick<Project, "id" | "name" | "createdAt" | "updatedAt"> & {
+  sources: number;
+  latestVersion: number | null;
+};
+
+function notFound(message: string): ApiError {
+  return new ApiError(404, "not_found", message);
+}
+
+function projectDir(id: string): string {
+  // Ids are generated here; anything else cannot name a project
+  if (!/^[a-f0-9-]{36}$/.test(id)) throw notFound(`Project ${id} not found`);
+  return dataPath("projects", id);
+}
+
+// Files are kept under a hash of their name, so any upload name (even ".."
+// or one too long for the file system) becomes a plain file name
+function storedName(name: string): string {
+  return createHash("sha256").update(name).digest("hex");
+}
+
+export function createProject(name: string, options: Record<string, string>): Project {
+  const now = new Date().toISOString();
+  const project: Project = {
+    id: randomUUID(),
+    name: name.trim() || "Untitled project",
+    createdAt: now,
+    updatedAt: now,
+    options,
+    sources: [],
+    versions: []
+  };
+  saveProject(project);
+  return project;
+}
+
+export function saveProject(project: Project) {
+  project.updatedAt = new Date().toISOString();
+  writeJsonFile(path.join(projectDir(project.id), "project.json"), project);
+}
+
+export function loadProject(id: string): Project {
+  const project = readJsonFile<Project>(path.join(projectDir(id), "project.json"));
+  if (!project) throw notFound(`Project ${id} not found`);
+  return project;
+}
+
+export function listProjects(): ProjectSummary[] {
+  const root = dataPath("projects");
+  if (!fs.existsSync(root)) return [];
+  return fs.readdirSync(root)
+    .map(id => readJsonFile<Project>(path.join(root, id, "project.json")))
+    .filter((p): p is Project => !!p)
+    .map(p => ({
+      id: p.id,
+      name: p.name,
+      createdAt: p.createdAt,
+      updatedAt: p.updatedAt,
+      sources: p.sources.length,
+      latestVersion: p.versions.length > 0 ? p.versions[p.versions.length - 1].version : null
+    }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+// Copy an uploaded file into the project, replacing any source of the same name
+export function putSource(project: Project, file: Express.Multer.File, name = file.originalname): ProjectSource {
+  const dir = path.join(projectDir(project.id), "sources");
+  const target = path.join(dir, storedName(name));
+  fs.mkdirSync(dir, { recursive: true });
+  fs.copyFileSync(file.path, target);
+  const previous = project.sources.find(s => s.name === name);
+  const source: ProjectSource = {
+    name,
+    size: fs.statSync(target).size,
+    revision: (previous?.revision ?? 0) + 1,
+    uploadedAt: new Date().toISOString()
+  };
+  project.sources = previous
+    ? project.sources.map(s => (s.name === name ? source : s))
+    : [...project.sources, source];
+  return source;
+}
+
+// Files a project keeps at most one of
+type SupportKind = "constraints" | "aliases" | "qualifications";
+
+function putSupportFile(project: Project, kind: SupportKind, file: Express.Multer.File): ProjectSource {
+  const dir = path.join(projectDir(project.id), kind);
+  // Only one file of each kind is kept
+  fs.rmSync(dir, { recursive: true, force: true });
+  fs.mkdirSync(dir, { recursive: true });
+  const target = path.join(dir, storedName(file.originalname));
+  fs.copyFileSync(file.path, target);
+  project[kind] = {
+    name: file.originalname,
+    size: fs.statSync(target).size,
+    revision: (project[kind]?.revision ?? 0) + 1,
+    uploadedAt: new Date().toISOString()
+  };
+  return project[kind]!;
+}
+
+function supportFile(project: Project, kind: SupportKind): Express.Multer.File | undefined {
+  const stored = project[kind];
+  if (!stored) return undefined;
+  const target = path.join(projectDir(project.id), kind, storedName(stored.name));
+  return { originalname: stored.name, path: target } as Express.Multer.File;
+}
+
+export function putConstraints(project: Project, file: Express.Multer.File): ProjectSource {
+  return putSupportFile(project, "constraints", file);
+}
+
+export function putAliases(project: Project, file: Express.Multer.File): ProjectSource {
+  return putSupportFile(project, "aliases", file);
+}
+
+export function putQualifications(project: Project, file: Express.Multer.File): ProjectSource {
+  return putSupportFile(project, "qualifications", file);
+}
+
+// Stored sources in the shape the parsers take from multer
+export function sourceFiles(project: Project): Express.Multer.File[] {
+  const dir = path.join(projectDir(project.id), "sources");
+  return project.sources.map(s => ({ originalname: s.name, path: path.join(dir, storedName(s.name)) }) as Express.Multer.File);
+}
+
+// The stored constraints, alias and qualification files, in the shape resolveFiles takes
+export function projectSupportFiles(project: Project) {
+  return {
+    constraints: supportFile(project, "constraints"),
+    aliases: supportFile(project, "aliases"),
+    qualifications: supportFile(project, "qualifications")
+  };
+}
+
+// Keep hand placements, replacing any earlier one for the same lesson
+export function putManualMoves(project: Project, placements: ManualPlacement[]) {
+  const lessons = new Set(placements.map(p => p.lesson));
+  project.manualMoves = [...(project.manualMoves || []).filter(p => !lessons.has(p.lesson)), ...placements];
+}
+
+export function addVersion(
+  project: Project,
+  reason: string,
+  summary: ProjectVersion["summary"],
+  result: unknown,
+  zip: Buffer
+): ProjectVersion {
+  const { number, dir } = claimVersion(project);
+  writeJsonFile(path.join(dir, "result.json"), result);
+  fs.writeFileSync(path.join(dir, "resolved_timetables.zip"), zip);
+  const version: ProjectVersion = {
+    version: number,
+    createdAt: new Date().toISOString(),
+    reason,
+    sources: project.sources.map(s => ({ name: s.name, revision: s.revision })),
+    summary
+  };
+  // Another run may have saved a version since this project was loaded
+  const saved = loadProject(project.id).versions;
+  project.versions = [...saved.filter(v => v.version !== number), version].sort((a, b) => a.version - b.version);
+  saveProject(project);
+  return version;
+}
+
+// Take the next version number by creating its folder: mkdir fails for a
+// number a concurrent run has already taken, so each run gets its own
+function claimVersion(project: Project): { number: number; dir: string } {
+  const root = path.join(projectDir(project.id), "versions");
+  fs.mkdirSync(root, { recursive: true });
+  for (let number = (project.versions[project.versions.length - 1]?.version ?? 0) + 1; ; number++) {
+    const dir = path.join(root, String(number));
+    try {
+      fs.mkdirSync(dir);
+      return { number, dir };
+    } catch (err: any) {
+      if (err?.code !== "EEXIST") throw err;
+    }
+  }
+}
+
+function versionDir(project: Project, version: number): string {
+  if (!project.versions.some(v => v.version === version)) {
+    throw notFound(`Project ${project.id} has no version ${version}`);
+  }
+  return path.join(projectDir(project.id), "versions", String(version));
+}
+
+export function versionResult(project: Project, version: number): unknown {
+  return readJsonFile(path.join(versionDir(project, version), "result.json"));
+}
+
+export function versionZipPath(project: Project, version: number): string {
+  return path.join(versionDir(project, version), "resolved_timetables.zip");
+}
@@ -0,0 +1,66 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { main } from "../src/cli";
+
+let folder: string;
+
+beforeEach(() => {
+  folder = fs.mkdtempSync(path.join(os.tmpdir(), "unisync-cli-"));
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(folder, { recursive: true, force: true });
+});
+
+function write(name: string, content: string): string {
+  const file = path.join(folder, name);
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+const HEADER = "Day,Period,Subject,Teacher,Group,Room,Locked\n";
+
+describe("main", () => {
+  it("exits 0 and writes the documents when no conflicts remain", async () => {
+    write("a.csv", `${HEADER}Mon,1,Maths,Ade,A,R1,\n`);
+    write("b.csv", `${HEADER}Mon,1,Art,Ade,B,R2,\n`);
+    const out = path.join(folder, "out");
+    expect(await main([folder, "--out", out, "--formats", "csv"])).toBe(0);
+    expect(fs.readdirSync(path.join(out, "csv")).sort()).toEqual(["resolved_a.csv", "resolved_b.csv"]);
+  });
+
+  it("exits 1 when conflicts remain", async () => {
+    write("a.csv", `${HEADER}Mon,1,Maths,Ade,A,R1,yes\n`);
+    write("b.csv", `${HEADER}Mon,1,Art,Ade,B,R2,yes\n`);
+    expect(await main([folder, "--formats", "csv"])).toBe(1);
+  });
+
+  it("exits 2 on bad usage or a failed run", async () => {
+    expect(await main([])).toBe(2);
+    expect(await main([folder, "--colour", "red"])).toBe(2);
+    expect(await main([path.join(folder, "missing")])).toBe(2);
+    // A folder without timetables
+    expect(await main([folder])).toBe(2);
+    // An option that fails validation
+    write("a.csv", `${HEADER}Mon,1,Maths,Ade,A,R1,\n`);
+    expect(await main([folder, "--strategy", "fastest"])).toBe(2);
+    expect(console.error).toHaveBeenLastCalledWith(expect.stringContaining("strategy"));
+  });
+
+  it("reads support files given beside the timetables without resolving them", async () => {
+    write("a.csv", `${HEADER}Mon,1,Maths,Ade,A,R1,\n`);
+    const constraints = write("constraints.json", JSON.stringify({ teacherUnavailable: { Ade: ["Mon-*"] } }));
+    const out = path.join(folder, "out");
+    expect(await main([folder, "--constraints", constraints, "--out", out, "--formats", "csv"])).toBe(0);
+    const diagnostics = JSON.parse(fs.readFileSync(path.join(out, "diagnostics.json"), "utf8"));
+    expect(diagnostics.map((d: { file: string }) => d.file)).toEqual(["a.csv"]);
+    const [, lesson] = fs.readFileSync(path.join(out, "csv", "resolved_a.csv"), "utf8").split("\r\n");
+    expect(lesson).toMatch(/^(Tue|Wed|Thu|Fri),/);
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import { assignmentsToDocx } from "../../src/exporters/docx";
+import { mergeAndResolve } from "../../src/solver/index";
+import { row } from "../rows";
+
+describe("assignmentsToDocx", () => {
+  it("lays the lessons out on a day x period grid", async () => {
+    const { assignments } = mergeAndResolve([
+      row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "A", room: "R1" }),
+      row({ day: "Wed", period: "P3", subject: "Art", teacher: "Bo", group: "A", room: "R2" })
+    ]);
+    const zip = await JSZip.loadAsync(await assignmentsToDocx(assignments, "Year 1"));
+    const xml = await zip.file("word/document.xml")!.async("string");
+    expect(xml).toContain("<w:tbl>");
+    for (const text of ["Year 1", "Maths", "Art", "Wed", "P3"]) expect(xml).toContain(text);
+  });
+});
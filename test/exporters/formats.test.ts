@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { assignmentsToCsv } from "../../src/exporters/csv";
+import { assignmentsToIcs } from "../../src/exporters/ics";
+import { assignmentsToHtml } from "../../src/exporters/html";
+import { buildCalendar } from "../../src/solver/calendar";
+import { mergeAndResolve } from "../../src/solver/index";
+import { TimetableRow } from "../../src/parsers/index";
+import { row } from "../rows";
+
+const maths = row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "A, B", room: "R1" });
+const art = row({ day: "Tue", period: "P2", subject: "Art", teacher: "Bo", group: "A", room: "R2" });
+
+function uids(rows: TimetableRow[], owner: string): string[] {
+  const ics = assignmentsToIcs(mergeAndResolve(rows).assignments, owner, undefined, { termStart: "2026-09-07" });
+  return ics.split("\r\n").filter(line => line.startsWith("UID:"));
+}
+
+describe("assignmentsToCsv", () => {
+  it("writes the upload column layout in slot order, quoting where needed", () => {
+    const csv = assignmentsToCsv(mergeAndResolve([art, maths]).assignments);
+    expect(csv.split("\r\n")).toEqual([
+      "Day,Period,Subject,Teacher,Group,Room,Locked,Weeks,Start Date,End Date",
+      'Mon,P1,Maths,Ade,"A, B",R1,,,,',
+      "Tue,P2,Art,Bo,A,R2,,,,",
+      ""
+    ]);
+  });
+});
+
+describe("assignmentsToIcs", () => {
+  it("repeats each lesson weekly from the first teaching week", () => {
+    const calendar = buildCalendar({ bellSchedule: ["09:00-10:00", "10:00-11:00"] });
+    const ics = assignmentsToIcs(mergeAndResolve([art], { calendar }).assignments, "Year 1", calendar, {
+      termStart: "2026-09-07",
+      termEnd: "2026-12-18"
+    });
+    expect(ics).toContain("DTSTART:20260908T100000");
+    expect(ics).toContain("DTEND:20260908T110000");
+    expect(ics).toContain("RRULE:FREQ=WEEKLY;UNTIL=20261218T235959");
+  });
+
+  it("keeps event UIDs when other lessons are added", () => {
+    const [artUid] = uids([art], "teacher: Bo");
+    expect(uids([maths, art], "teacher: Bo")).toContain(artUid);
+  });
+
+  it("gives the same lesson different UIDs in different calendars", () => {
+    expect(uids([art], "teacher: Bo")).not.toEqual(uids([art], "group: A"));
+  });
+
+  it("keeps repeated lessons in one calendar apart", () => {
+    const [first, second] = uids([art, { ...art, sourceFile: "copy.csv" }], "room: R2");
+    expect(first).not.toBe(second);
+  });
+
+  it("refuses dates in the wrong format or that do not exist", () => {
+    expect(() => assignmentsToIcs([], "x", undefined, { termStart: "07/09/2026" })).toThrow(/YYYY-MM-DD/);
+    expect(() => assignmentsToIcs([], "x", undefined, { termEnd: "2026-02-30" }))
+      .toThrow(expect.objectContaining({ status: 400, code: "invalid_date" }));
+  });
+});
+
+describe("assignmentsToHtml", () => {
+  it("escapes lesson text", () => {
+    const html = assignmentsToHtml(mergeAndResolve([{ ...maths, subject: "<b>Maths</b>" }]).assignments, "Year 1");
+    expect(html).toContain("&lt;b&gt;Maths&lt;/b&gt;");
+    expect(html).not.toContain("<b>Maths</b>");
+  });
+});
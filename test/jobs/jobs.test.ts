@@ -0,0 +1,72 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { cancelJob, getJob, jobResult, jobZipPath, submitJob } from "../../src/jobs/index";
+import { ApiError } from "../../src/contract";
+
+let dataDir: string;
+
+beforeAll(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "unisync-jobs-"));
+  process.env.UNISYNC_DATA_DIR = dataDir;
+});
+
+afterAll(() => {
+  delete process.env.UNISYNC_DATA_DIR;
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+async function settled(id: string) {
+  await vi.waitFor(() => expect(["done", "failed", "cancelled"]).toContain(getJob(id).status));
+  return getJob(id);
+}
+
+describe("jobs", () => {
+  it("run in the background, report progress and keep their results", async () => {
+    const stages: string[] = [];
+    const job = submitJob(async control => {
+      control.report({ stage: "parsing", file: 1, files: 1, name: "a.csv" });
+      stages.push(getJob(job.id).progress.stage);
+      return { result: { ok: true }, zip: Buffer.from("zip") };
+    });
+    expect(job.status).toBe("queued");
+    expect(() => jobResult(job.id)).toThrow(/not done/);
+
+    expect(await settled(job.id)).toMatchObject({ status: "done", progress: { stage: "done" } });
+    expect(stages).toEqual(["parsing"]);
+    expect(jobResult(job.id)).toEqual({ ok: true });
+    expect(fs.readFileSync(jobZipPath(job.id), "utf8")).toBe("zip");
+  });
+
+  it("keep the error code of a failed task", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const job = submitJob(async () => {
+      throw new ApiError(400, "no_files", "No files uploaded");
+    });
+    expect(await settled(job.id)).toMatchObject({ status: "failed", error: "No files uploaded", errorCode: "no_files" });
+    error.mockRestore();
+  });
+
+  it("stop a running task at its next progress report once cancelled", async () => {
+    let reached = false;
+    const cleanup = vi.fn();
+    const job = submitJob(async control => {
+      control.report({ stage: "parsing" });
+      cancelJob(job.id);
+      control.report({ stage: "solving" });
+      reached = true;
+      return { result: {}, zip: Buffer.alloc(0) };
+    }, cleanup);
+    expect(await settled(job.id)).toMatchObject({ status: "cancelled" });
+    expect(reached).toBe(false);
+    expect(cleanup).toHaveBeenCalledOnce();
+  });
+
+  it("are unknown once a finished job is deleted", async () => {
+    const job = submitJob(async () => ({ result: {}, zip: Buffer.alloc(0) }));
+    await settled(job.id);
+    cancelJob(job.id);
+    expect(() => getJob(job.id)).toThrow(/not found/);
+  });
+});
@@ -0,0 +1,79 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { cancelJob, getJob, jobResult, submitJob } from "../../src/jobs/index";
+import { resolveInWorker } from "../../src/jobs/worker";
+import { removeUploads, upload } from "../uploads";
+
+const HEADER = "Day,Period,Subject,Teacher,Group,Room\n";
+let dataDir: string;
+
+beforeAll(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "unisync-worker-"));
+  process.env.UNISYNC_DATA_DIR = dataDir;
+});
+
+afterAll(() => {
+  delete process.env.UNISYNC_DATA_DIR;
+  fs.rmSync(dataDir, { recursive: true, force: true });
+  removeUploads();
+});
+
+async function settled(id: string) {
+  await vi.waitFor(() => expect(["done", "failed", "cancelled"]).toContain(getJob(id).status), { timeout: 60_000 });
+  return getJob(id);
+}
+
+describe("resolveInWorker", () => {
+  it("resolves an upload on a worker thread while the server keeps running", { timeout: 60_000 }, async () => {
+    const files = [upload("a.csv", `${HEADER}Mon,1,Maths,Ade,A,R1\n`), upload("b.csv", `${HEADER}Mon,1,Art,Ade,B,R2\n`)];
+    const stages: string[] = [];
+    let ticks = 0;
+    const ticker = setInterval(() => ticks++, 5);
+    const job = submitJob(control => resolveInWorker({ files, body: {}, support: {} }, {
+      ...control,
+      report: progress => {
+        stages.push(progress.stage);
+        control.report(progress);
+      }
+    }));
+
+    expect(await settled(job.id)).toMatchObject({ status: "done" });
+    clearInterval(ticker);
+    expect(ticks).toBeGreaterThan(0);
+    expect(stages).toEqual(["parsing", "parsing", "solving", "rendering"]);
+    const result = jobResult(job.id) as any;
+    expect(result.files.map((f: any) => [f.file, f.movedRows])).toEqual([["a.csv", 0], ["b.csv", 1]]);
+  });
+
+  it("keeps the error code of a run that fails", { timeout: 60_000 }, async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const files = [upload("a.csv", `${HEADER}Mon,1,Maths,Ade,A,R1\n`)];
+    const job = submitJob(control => resolveInWorker({ files, body: { strategy: "fastest" }, support: {} }, control));
+    expect(await settled(job.id)).toMatchObject({
+      status: "failed",
+      errorCode: "invalid_options",
+      fields: [{ field: "strategy", code: "invalid_value" }]
+    });
+    error.mockRestore();
+  });
+
+  it("stops the worker as soon as the job is cancelled", { timeout: 60_000 }, async () => {
+    const files = [upload("a.csv", `${HEADER}Mon,1,Maths,Ade,A,R1\n`)];
+    const cleanup = vi.fn();
+    let stopped: unknown;
+    const job = submitJob(
+      control => resolveInWorker({ files, body: {}, support: {} }, control).catch(err => {
+        stopped = err;
+        throw err;
+      }),
+      cleanup
+    );
+    await vi.waitFor(() => expect(getJob(job.id).status).toBe("running"));
+    cancelJob(job.id);
+    await vi.waitFor(() => expect(cleanup).toHaveBeenCalledOnce());
+    expect(getJob(job.id).status).toBe("cancelled");
+    expect(stopped).toBeInstanceOf(Error);
+  });
+});
@@ -0,0 +1,61 @@
+import { afterAll, describe, expect, it } from "vitest";
+import { columnMapping, detectColumns, matchHeader } from "../../src/parsers/columns";
+import { parseUploadedFiles, previewUploadedFiles } from "../../src/parsers/index";
+import { mergeAndResolve } from "../../src/solver/index";
+import { removeUploads, upload } from "../uploads";
+
+afterAll(removeUploads);
+
+describe("matchHeader", () => {
+  it("matches field names, synonyms, headers containing them and near spellings", () => {
+    expect(matchHeader("Day")).toMatchObject({ field: "day", method: "exact" });
+    expect(matchHeader("Lecturer")).toMatchObject({ field: "teacher", method: "synonym" });
+    expect(matchHeader("Lecturer_Name")).toMatchObject({ field: "teacher" });
+    expect(matchHeader("Techer")).toMatchObject({ field: "teacher", method: "fuzzy" });
+    expect(matchHeader("Notes")).toMatchObject({ field: null });
+  });
+
+  it("leaves Start and End alone, as they more often hold clock times than dates", () => {
+    expect(matchHeader("Start")).toMatchObject({ field: null });
+    expect(matchHeader("End")).toMatchObject({ field: null });
+    expect(matchHeader("Start Date")).toMatchObject({ field: "startDate" });
+  });
+});
+
+describe("detectColumns", () => {
+  it("gives each field to its most confident header only", () => {
+    const mapping = columnMapping(detectColumns(["Day", "Time", "Course", "Course Code", "Venue"]));
+    expect(mapping).toEqual({ day: "Day", period: "Time", subject: "Course", room: "Venue" });
+  });
+
+  it("lets a given mapping override detection", () => {
+    const mapping = columnMapping(detectColumns(["Day", "Slot", "Module", "Who"], { teacher: "who" }));
+    expect(mapping).toMatchObject({ teacher: "Who", period: "Slot", subject: "Module" });
+  });
+});
+
+describe("previewUploadedFiles", () => {
+  it("shows the mapping and sample rows a file would parse to", async () => {
+    const [preview] = await previewUploadedFiles([
+      upload("term.csv", "Weekday,Session,Module,Staff,Cohort,Hall\nMon,1,Maths,Ade,A,R1\nTue,2,Art,Bo,B,R2\n")
+    ], {}, 1);
+    expect(preview.mapping).toEqual({
+      day: "Weekday", period: "Session", subject: "Module", teacher: "Staff", group: "Cohort", room: "Hall"
+    });
+    expect(preview.rowCount).toBe(2);
+    expect(preview.sampleRows).toMatchObject([{ day: "Mon", subject: "Maths", room: "R1" }]);
+  });
+});
+
+describe("parseUploadedFiles", () => {
+  it("reads a timetable with Start and End clock times as lessons on every week", async () => {
+    const rows = await parseUploadedFiles([
+      upload("times.csv", "Day,Period,Start,End,Subject,Teacher,Group,Room\nMon,P1,09:00,10:00,Maths,Ade,A,R1\nMon,P2,10:00,11:00,Art,Bo,B,R2\n")
+    ]);
+    expect(rows).toHaveLength(2);
+    expect(rows[0].startDate).toBeUndefined();
+    const result = mergeAndResolve(rows);
+    expect(result.rejected).toEqual([]);
+    expect(result.assignments).toHaveLength(2);
+  });
+});
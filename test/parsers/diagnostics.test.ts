@@ -0,0 +1,40 @@
+import { afterAll, describe, expect, it, vi } from "vitest";
+import { parseUploadedFilesWithDiagnostics, withRejections } from "../../src/parsers/index";
+import { mergeAndResolve } from "../../src/solver/index";
+import { removeUploads, upload } from "../uploads";
+
+afterAll(removeUploads);
+
+describe("parseUploadedFilesWithDiagnostics", () => {
+  it("reports each file, the columns it ignored and the files it could not read", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { rows, diagnostics } = await parseUploadedFilesWithDiagnostics([
+      upload("good.csv", "Day,Period,Subject,Teacher,Group,Room,Notes\nMon,1,Maths,Ade,A,R1,bring a calculator\n"),
+      upload("image.png", Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00])),
+      upload("empty.csv", "")
+    ]);
+    // Failures an upload is expected to have go to the diagnostics, not the log
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ day: "Mon", period: "1", subject: "Maths", sourceFile: "good.csv", sourceRow: 2 });
+    expect(diagnostics.map(d => [d.file, d.parsed, d.errorCode])).toEqual([
+      ["good.csv", true, undefined],
+      ["image.png", false, "unsupported_file_type"],
+      ["empty.csv", false, "empty_file"]
+    ]);
+    expect(diagnostics[0]).toMatchObject({ layout: "rows", rowCount: 1, unmappedColumns: ["Notes"] });
+  });
+});
+
+describe("withRejections", () => {
+  it("counts rows the solver could not place against their file", async () => {
+    const { rows, diagnostics } = await parseUploadedFilesWithDiagnostics([
+      upload("week.csv", "Day,Period,Subject,Teacher\nMon,1,Maths,Ade\nSunday,1,Art,Bo\nTue,9,Music,Cy\n")
+    ]);
+    const [report] = withRejections(diagnostics, mergeAndResolve(rows).rejected);
+    expect(report.acceptedRows).toBe(1);
+    expect(report.rejectedRows.map(r => [r.row, r.values.subject])).toEqual([[3, "Art"], [4, "Music"]]);
+  });
+});
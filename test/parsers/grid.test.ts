@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { detectGrid, parseGrid, splitCell } from "../../src/parsers/grid";
+import { buildCalendar } from "../../src/solver/calendar";
+
+function lessons(matrix: string[][], calendar = buildCalendar()) {
+  const layout = detectGrid(matrix);
+  expect(layout).not.toBeNull();
+  return parseGrid(matrix, layout!, "grid.xlsx", {}, calendar).map(r => `${r.day} ${r.period} ${r.subject}`);
+}
+
+describe("detectGrid", () => {
+  it("finds periods across the top with days down the side, or the transpose", () => {
+    expect(detectGrid([["Timetable"], ["", "P1", "P2"], ["Mon", "Maths", ""]]))
+      .toEqual({ headerRow: 1, labelColumn: 0, transposed: false });
+    expect(detectGrid([["", "Mon", "Tue"], ["1", "Maths", "Art"]]))
+      .toEqual({ headerRow: 0, labelColumn: 0, transposed: true });
+  });
+
+  it("does not mistake one lesson per row for a grid", () => {
+    expect(detectGrid([["Day", "Period", "Subject"], ["Mon", "1", "Maths"], ["Tue", "2", "Art"]])).toBeNull();
+  });
+});
+
+describe("splitCell", () => {
+  it("splits on the default separators in field order", () => {
+    expect(splitCell("Maths / Mr Ade / R12")).toEqual({ subject: "Maths", teacher: "Mr Ade", room: "R12" });
+    expect(splitCell("Maths - R12", { separators: ["-"], fields: ["subject", "room"] }))
+      .toEqual({ subject: "Maths", room: "R12" });
+  });
+});
+
+describe("parseGrid", () => {
+  it("reads one lesson per filled cell and skips breaks", () => {
+    expect(lessons([
+      ["", "Period 1", "Period 2", "Period 3"],
+      ["Monday", "Maths/Ade/R1", "Lunch", "Art/Bo/R2"]
+    ])).toEqual(["Monday P1 Maths", "Monday P3 Art"]);
+  });
+
+  it("reads a cell merged across periods as one multi-period lesson", () => {
+    expect(lessons([
+      ["", "P1", "P2", "Break", "P3", "P4"],
+      ["Mon", "Maths/Ade/R1", "Maths/Ade/R1", "", "Maths/Ade/R1", "Art/Bo/R2"],
+      ["Tue", "Chem/Cy/Lab", "Chem/Cy/Lab", "Chem/Cy/Lab", "Chem/Cy/Lab", ""]
+    ])).toEqual(["Mon P1-P2 Maths", "Mon P3 Maths", "Mon P4 Art", "Tue P1-P3 Chem"]);
+  });
+
+  it("joins merged cells down the side of a transposed grid", () => {
+    expect(lessons([
+      ["", "Mon", "Tue"],
+      ["1", "Maths", "Art"],
+      ["2", "Maths", "Music"]
+    ])).toEqual(["Mon P1-P2 Maths", "Tue P1 Art", "Tue P2 Music"]);
+  });
+
+  it("maps clock-time headers through the bell schedule", () => {
+    const calendar = buildCalendar({
+      periods: [{ start: "08:30", end: "09:20" }, { start: "09:20", end: "10:10" }, { start: "10:30", end: "11:20" }]
+    });
+    expect(lessons([
+      ["", "10:30-11:20", "08:30", "09:20-10:10"],
+      ["Wed", "Art", "Maths", "Maths"]
+    ], calendar)).toEqual(["Wed P3 Art", "Wed P1-P2 Maths"]);
+  });
+
+  it("keeps headers the calendar does not know, for the solver to report", () => {
+    expect(lessons([["", "P1", "07:00"], ["Mon", "Maths", "Art"]])).toEqual(["Mon P1 Maths", "Mon 07:00 Art"]);
+  });
+});
@@ -0,0 +1,41 @@
+import { afterAll, describe, expect, it } from "vitest";
+import { decodeText, sniffFile } from "../../src/parsers/sniff";
+import { removeUploads, upload } from "../uploads";
+
+afterAll(removeUploads);
+
+describe("sniffFile", () => {
+  it("judges text files by content, with the extension breaking ties", () => {
+    expect(sniffFile(upload("timetable.csv", "Day,Period\nMon,P1\n"))).toBe("csv");
+    expect(sniffFile(upload("export", "Day;Period\nMon;P1\n"))).toBe("csv");
+    expect(sniffFile(upload("notes.txt", "Day,Period\nMon,P1\n"))).toBe("text");
+    expect(sniffFile(upload("constraints.txt", '{ "roomCapacity": {} }'))).toBe("json");
+    expect(sniffFile(upload("timetable.xlsx", "%PDF-1.4\n"))).toBe("pdf");
+    const ole = Buffer.concat([Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]), Buffer.alloc(64)]);
+    expect(sniffFile(upload("old.xls", ole))).toBe("xls");
+  });
+
+  it("accepts a CSV saved as Latin-1", () => {
+    const latin1 = Buffer.from("Teacher,Room\nMme Chloé,Salle 2\n", "latin1");
+    expect(sniffFile(upload("timetable.csv", latin1))).toBe("csv");
+  });
+
+  it("refuses empty and binary files", () => {
+    expect(() => sniffFile(upload("empty.csv", ""))).toThrow(expect.objectContaining({ code: "empty_file", status: 400 }));
+    expect(() => sniffFile(upload("image.csv", Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]))))
+      .toThrow(expect.objectContaining({ code: "unsupported_file_type" }));
+    const doc = Buffer.concat([
+      Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+      Buffer.alloc(64),
+      Buffer.from("WordDocument", "utf16le")
+    ]);
+    expect(() => sniffFile(upload("old.doc", doc))).toThrow(/Legacy Word \(\.doc\)/);
+  });
+});
+
+describe("decodeText", () => {
+  it("reads UTF-8, dropping a byte order mark, and falls back to Latin-1", () => {
+    expect(decodeText(Buffer.from("\uFEFFChloé", "utf8"))).toBe("Chloé");
+    expect(decodeText(Buffer.from("Chloé", "latin1"))).toBe("Chloé");
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { Document, Packer, Paragraph, Table, TableCell, TableRow } from "docx";
+import { htmlTables, parseDocx, parseText } from "../../src/parsers/text";
+import { TimetableRow } from "../../src/parsers/index";
+
+const lessons = (rows: TimetableRow[]) => rows.map(r => `${r.day} ${r.period} ${r.subject}`);
+
+describe("parseText", () => {
+  it("splits lines on tabs, pipes or runs of spaces", () => {
+    for (const text of [
+      "Day\tPeriod\tSubject\tTeacher\nMon\t1\tMaths\tAde\n",
+      "| Day | Period | Subject | Teacher |\n| Mon | 1 | Maths | Ade |\n",
+      "Day   Period   Subject   Teacher\nMon   1        Maths     Ade\n"
+    ]) {
+      const parsed = parseText(text, "timetable.txt");
+      expect(parsed.strategy).toBe("delimited");
+      expect(lessons(parsed.rows)).toEqual(["Mon 1 Maths"]);
+    }
+  });
+
+  it("reads a grid whose header line is indented", () => {
+    const parsed = parseText("        P1        P2\nMon     Maths     Art\n", "grid.txt");
+    expect(parsed.layout).toBe("grid");
+    expect(lessons(parsed.rows)).toEqual(["Mon P1 Maths", "Mon P2 Art"]);
+  });
+
+  it("falls back to one field per line after a Day header", () => {
+    const text = ["Day", "Period", "Subject", "Teacher", "Group", "Room", "Tue", "2", "Art", "Bo", "A", "R2"].join("\n");
+    const parsed = parseText(text, "vertical.pdf");
+    expect(parsed.strategy).toBe("vertical");
+    expect(parsed.rows).toMatchObject([{ day: "Tue", period: "2", subject: "Art", teacher: "Bo", group: "A", room: "R2" }]);
+  });
+});
+
+describe("htmlTables", () => {
+  it("repeats the text of cells spanning several columns or rows", () => {
+    const html = '<table><tr><td colspan="2">Maths</td><td>Art</td></tr><tr><td rowspan="1">Mon</td><td>a<br/>b</td></tr></table>';
+    expect(htmlTables(html)).toEqual([[["Maths", "Maths", "Art"], ["Mon", "a\nb"]]]);
+  });
+});
+
+describe("parseDocx", () => {
+  it("reads the tables of a Word document", async () => {
+    const cells = (texts: string[]) => new TableRow({
+      children: texts.map(text => new TableCell({ children: [new Paragraph(text)] }))
+    });
+    const doc = new Document({
+      sections: [{
+        children: [
+          new Paragraph("Timetable"),
+          new Table({ rows: [cells(["Day", "Period", "Subject", "Teacher"]), cells(["Wed", "3", "Music", "Cy"])] })
+        ]
+      }]
+    });
+    const parsed = await parseDocx(await Packer.toBuffer(doc), "timetable.docx");
+    expect(parsed.strategy).toBe("docx-tables");
+    expect(lessons(parsed.rows)).toEqual(["Wed 3 Music"]);
+  });
+});
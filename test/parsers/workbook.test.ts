@@ -0,0 +1,93 @@
+import { afterAll, describe, expect, it } from "vitest";
+import ExcelJS from "exceljs";
+import * as XLSX from "@e965/xlsx";
+import { parseUploadedFilesWithDiagnostics } from "../../src/parsers/index";
+import { parseConstraintsFile } from "../../src/parsers/constraints";
+import { removeUploads, upload } from "../uploads";
+
+afterAll(removeUploads);
+
+async function workbook(): Promise<Buffer> {
+  const book = new ExcelJS.Workbook();
+  book.addWorksheet("Year 1").addRows([
+    ["Day", "Period", "Subject", "Teacher", "Group", "Room"],
+    ["Mon", 1, "Maths", "Ade", "Y1", "R1"]
+  ]);
+  const grid = book.addWorksheet("Year 2");
+  grid.addRows([["", "P1", "P2", "P3"], ["Tue", "Chem / Cy / Lab", "", "Art / Bo / R2"]]);
+  grid.mergeCells("B2:C2");
+  book.addWorksheet("Notes");
+  book.addWorksheet("Old").state = "hidden";
+  return Buffer.from(await book.xlsx.writeBuffer());
+}
+
+// The same workbook saved in the legacy Excel 97-2003 format
+function legacyWorkbook(): Buffer {
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet([
+    ["Day", "Period", "Subject", "Teacher", "Group", "Room"],
+    ["Mon", 1, "Maths", "Ade", "Y1", "R1"]
+  ]), "Year 1");
+  const grid = XLSX.utils.aoa_to_sheet([["", "P1", "P2", "P3"], ["Tue", "Chem / Cy / Lab", "", "Art / Bo / R2"]]);
+  grid["!merges"] = [XLSX.utils.decode_range("B2:C2")];
+  XLSX.utils.book_append_sheet(book, grid, "Year 2");
+  XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet([["Day", "Period"], ["Wed", 1]]), "Old");
+  book.Workbook = { Sheets: [{ Hidden: 0 }, { Hidden: 0 }, { Hidden: 1 }] };
+  return XLSX.write(book, { type: "buffer", bookType: "biff8" });
+}
+
+describe("workbooks", () => {
+  it("are read sheet by sheet, skipping hidden and empty sheets", async () => {
+    const { rows, diagnostics } = await parseUploadedFilesWithDiagnostics([upload("school.xlsx", await workbook())]);
+    expect(diagnostics.map(d => [d.sheet, d.layout])).toEqual([["Year 1", "rows"], ["Year 2", "grid"]]);
+    expect(rows.map(r => [r.sourceSheet, r.day, r.period, r.subject])).toEqual([
+      ["Year 1", "Mon", "1", "Maths"],
+      ["Year 2", "Tue", "P1-P2", "Chem"],
+      ["Year 2", "Tue", "P3", "Art"]
+    ]);
+  });
+
+  it("read only the requested sheets, by any case", async () => {
+    const { rows, diagnostics } = await parseUploadedFilesWithDiagnostics(
+      [upload("school.xlsx", await workbook())],
+      { sheets: ["year 2"] }
+    );
+    expect(diagnostics.map(d => d.sheet)).toEqual(["Year 2"]);
+    expect(rows).toHaveLength(2);
+  });
+
+  it("report requested sheets that do not exist", async () => {
+    const { diagnostics } = await parseUploadedFilesWithDiagnostics(
+      [upload("school.xlsx", await workbook())],
+      { sheets: ["Year 9"] }
+    );
+    expect(diagnostics).toMatchObject([{ parsed: false, errorCode: "sheet_not_found" }]);
+    expect(diagnostics[0].error).toMatch(/has: Year 1, Year 2, Notes$/);
+  });
+
+  it("in the legacy .xls format are read the same way", async () => {
+    const { rows, diagnostics } = await parseUploadedFilesWithDiagnostics([upload("school.xls", legacyWorkbook())]);
+    expect(diagnostics.map(d => [d.sheet, d.layout])).toEqual([["Year 1", "rows"], ["Year 2", "grid"]]);
+    expect(rows.map(r => [r.sourceSheet, r.day, r.period, r.subject])).toEqual([
+      ["Year 1", "Mon", "1", "Maths"],
+      ["Year 2", "Tue", "P1-P2", "Chem"],
+      ["Year 2", "Tue", "P3", "Art"]
+    ]);
+  });
+
+  it("holding support files are read from every sheet, not only the first", async () => {
+    const book = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet([
+      ["type", "name", "value"],
+      ["teacher_unavailable", "Ade", "Mon-P1"]
+    ]), "Teachers");
+    XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet([
+      ["type", "name", "value"],
+      ["room_capacity", "Lab 2", 30]
+    ]), "Rooms");
+    for (const [name, bookType] of [["constraints.xlsx", "xlsx"], ["constraints.xls", "biff8"]] as const) {
+      const constraints = await parseConstraintsFile(upload(name, XLSX.write(book, { type: "buffer", bookType })));
+      expect(constraints).toMatchObject({ teacherUnavailable: { Ade: ["Mon-P1"] }, roomCapacity: { "Lab 2": 30 } });
+    }
+  });
+});
@@ -0,0 +1,92 @@
+import express from "express";
+import "express-async-errors";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import uploadRouter from "../../src/routes/upload";
+import { resolveFiles, runToJson } from "../../src/pipeline";
+import { API_VERSION, errorResponse } from "../../src/contract";
+import { removeUploads, upload } from "../uploads";
+
+const HEADER = "Day,Period,Subject,Teacher,Group,Room,Locked\n";
+// Ade's clash can be moved away; Cy's locked exams cannot
+const A = `${HEADER}Mon,1,Maths,Ade,A,R1,\nTue,1,Exam,Cy,C,R3,yes\n`;
+const B = `${HEADER}Mon,1,Art,Ade,B,R2,\nTue,1,Exam,Cy,D,R4,yes\n`;
+
+beforeAll(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+  removeUploads();
+});
+
+describe("runToJson", () => {
+  it("returns the moves, the conflicts left and counts per file", async () => {
+    const run = await resolveFiles([upload("a.csv", A), upload("b.csv", B), upload("c.pdf", "%PDF-1.4 broken")], {});
+    const json = runToJson(run);
+
+    expect(json.apiVersion).toBe(API_VERSION);
+    expect(json.rows).toHaveLength(4);
+    expect(Object.keys(json.separatedTimetables).sort()).toEqual(["a.csv", "b.csv"]);
+    expect(json.moves.filter(m => m.to).map(m => [m.entry.sourceFile, m.entry.subject, m.from])).toEqual([
+      ["b.csv", "Art", "Mon-P1"]
+    ]);
+    expect(json.moves.filter(m => !m.to)).toHaveLength(2);
+    expect(json.conflicts).toHaveLength(1);
+    expect(json.conflictReport).toContain("Tue-P1");
+
+    expect(json.files.map(f => [f.file, f.parsed, f.parsedRows, f.scheduledRows, f.movedRows, f.unresolvedRows, f.conflicts]))
+      .toEqual([
+        ["a.csv", true, 2, 2, 0, 1, 1],
+        ["b.csv", true, 2, 2, 1, 1, 1],
+        ["c.pdf", false, 0, 0, 0, 0, 0]
+      ]);
+    expect(json.files[2].errorCode).toBe("parse_failed");
+  });
+});
+
+describe("POST /api/upload/analyze", () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use("/api/upload", uploadRouter);
+    app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      const body = errorResponse(err);
+      res.status(body.status).json(body);
+    });
+    server = app.listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/upload/analyze`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it("answers with the resolution as JSON", async () => {
+    const form = new FormData();
+    form.append("files", new Blob([A]), "a.csv");
+    form.append("files", new Blob([B]), "b.csv");
+    form.append("seed", "1");
+    const res = await fetch(url, { method: "POST", body: form });
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.apiVersion).toBe(API_VERSION);
+    expect(json.files.map((f: any) => [f.file, f.movedRows, f.unresolvedRows])).toEqual([
+      ["a.csv", 0, 1],
+      ["b.csv", 1, 1]
+    ]);
+    expect(json.conflicts).toHaveLength(1);
+  });
+
+  it("refuses an upload without timetable files", async () => {
+    const form = new FormData();
+    form.append("seed", "1");
+    const res = await fetch(url, { method: "POST", body: form });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ apiVersion: API_VERSION, code: "no_files" });
+  });
+});
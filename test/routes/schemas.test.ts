@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { API_VERSION, ApiError, errorResponse } from "../../src/contract";
+import { parseAliasesJson } from "../../src/parsers/aliases";
+import { parseConstraintsJson } from "../../src/parsers/constraints";
+import { parseQualificationsJson } from "../../src/parsers/qualifications";
+import { readAdjustment, readFlag, readUploadOptions } from "../../src/routes/schemas";
+
+// The error a call throws, for checking its code and fields
+function thrown(fn: () => unknown): any {
+  try {
+    fn();
+  } catch (err) {
+    return err;
+  }
+  throw new Error("expected an error");
+}
+
+describe("readUploadOptions", () => {
+  it("reads multipart text into typed options, treating empty fields as not given", () => {
+    const options = readUploadOptions({
+      seed: "7",
+      formats: "CSV, ics,csv",
+      strategy: "",
+      calendar: JSON.stringify({ days: ["Mon", "Tue"], periodsPerDay: 3 })
+    });
+    expect(options.seed).toBe(7);
+    expect(options.formats).toEqual(["csv", "ics"]);
+    expect(options.strategy).toBeUndefined();
+    expect(options.calendar?.days).toHaveLength(2);
+  });
+
+  it("reports every bad field at once, each with its own code", () => {
+    const err = thrown(() => readUploadOptions({ seed: "{", rooms: "[1]", strategy: "fast", termStart: "5/1/2026" }));
+    expect(err).toMatchObject({ status: 400, code: "invalid_options" });
+    expect(err.fields.map((f: any) => `${f.path} ${f.code}`).sort()).toEqual([
+      "rooms.0 invalid_type",
+      "seed invalid_json",
+      "strategy invalid_value",
+      "termStart invalid_format"
+    ]);
+  });
+
+  it("refuses term dates that do not exist instead of rolling them over", () => {
+    expect(readUploadOptions({ termStart: "2028-02-29" }).termStart).toBe("2028-02-29");
+    const err = thrown(() => readUploadOptions({ termStart: "2026-02-30", termEnd: "2026-13-01" }));
+    expect(err).toMatchObject({ status: 400, code: "invalid_options" });
+    expect(err.fields.map((f: any) => `${f.field} ${f.code}`)).toEqual(["termStart invalid_format", "termEnd invalid_format"]);
+  });
+
+  it("reports a calendar that cannot be built against the calendar field", () => {
+    const err = thrown(() => readUploadOptions({ calendar: JSON.stringify({ days: ["Mon", "Mon"] }) }));
+    expect(err.fields).toMatchObject([{ field: "calendar", code: "invalid_calendar" }]);
+  });
+});
+
+describe("readAdjustment and readFlag", () => {
+  it("accept well-formed values and refuse the rest", () => {
+    expect(readAdjustment({ action: "swap", lessons: [0, 3] })).toEqual({ action: "swap", lessons: [0, 3] });
+    expect(thrown(() => readAdjustment({ action: "move", lesson: 1, to: 5 })))
+      .toMatchObject({ status: 400, code: "invalid_options", fields: [{ path: "to", code: "invalid_type" }] });
+    expect(thrown(() => readAdjustment({ action: "teleport" }))).toMatchObject({ status: 400 });
+    expect(readFlag("true", "apply")).toBe(true);
+    expect(readFlag(undefined, "apply")).toBe(false);
+    expect(thrown(() => readFlag("yes", "apply")).fields).toMatchObject([{ field: "apply", code: "invalid_json" }]);
+  });
+});
+
+describe("JSON support files", () => {
+  it("are read with defaults for keys left out", () => {
+    expect(parseConstraintsJson('{ "roomCapacity": { "Lab 2": 30 } }')).toMatchObject({
+      roomCapacity: { "Lab 2": 30 },
+      teacherUnavailable: {}
+    });
+    expect(parseQualificationsJson('{ "Bo": ["Maths"] }')).toEqual({ Bo: ["Maths"] });
+  });
+
+  it("are refused with invalid_file when a value has the wrong shape", () => {
+    const err = thrown(() => parseConstraintsJson('{ "roomFeatures": { "Lab 2": "projector" } }'));
+    expect(err).toMatchObject({ status: 400, code: "invalid_file" });
+    expect(err.message).toMatch(/roomFeatures\.Lab 2/);
+    expect(thrown(() => parseConstraintsJson('{ "roomCapacty": {} }')).message).toMatch(/roomCapacty/);
+    expect(thrown(() => parseAliasesJson('{ "teacher": { "Ade": 1 } }'))).toMatchObject({ code: "invalid_file" });
+    expect(thrown(() => parseQualificationsJson("not json"))).toMatchObject({ code: "invalid_file" });
+  });
+});
+
+describe("errorResponse", () => {
+  it("keeps known codes and falls back to one for the status", () => {
+    expect(errorResponse(new ApiError(400, "invalid_file", "bad", { files: [] })))
+      .toEqual({ apiVersion: API_VERSION, error: "bad", code: "invalid_file", status: 400, files: [] });
+    expect(errorResponse(new ApiError(404, "not_found", "gone"))).toMatchObject({ status: 404, code: "not_found" });
+    expect(errorResponse(Object.assign(new Error("gone"), { status: 404 })).code).toBe("not_found");
+    expect(errorResponse(Object.assign(new Error("odd"), { status: 400, code: "ENOENT" })).code).toBe("bad_request");
+    expect(errorResponse(new Error("boom"))).toMatchObject({ status: 500, code: "internal_error" });
+  });
+});
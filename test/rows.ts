@@ -0,0 +1,6 @@
+import { TimetableRow } from "../src/parsers/index";
+
+// One uploaded lesson; anything not given is left empty
+export function row(fields: Partial<TimetableRow> & Pick<TimetableRow, "day" | "period">): TimetableRow {
+  return { subject: "", teacher: "", group: "", room: "", sourceFile: "timetable.csv", ...fields };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { checkAdjustment, mergeAndResolve } from "../../src/solver/index";
+import { row } from "../rows";
+
+const { assignments } = mergeAndResolve([
+  row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "A", room: "R1" }),
+  row({ day: "Mon", period: "P2", subject: "Art", teacher: "Bo", group: "A", room: "R2" }),
+  row({ day: "Tue", period: "P1", subject: "Music", teacher: "Ade", group: "B", room: "R3" })
+]);
+
+describe("checkAdjustment", () => {
+  it("moves a lesson to a free slot and records the placement", () => {
+    const check = checkAdjustment(assignments, { action: "move", lesson: 0, to: "Wed-P3" });
+    expect(check.available).toBe(true);
+    expect(check.newConflicts).toHaveLength(0);
+    expect(check.assignments[0].assignedSlot).toBe("Wed-P3");
+    expect(check.placements).toHaveLength(1);
+    expect(check.placements[0]).toMatchObject({ slot: "Wed-P3" });
+  });
+
+  it("names what blocks a move and the conflicts it would cause", () => {
+    const check = checkAdjustment(assignments, { action: "move", lesson: 2, to: "Mon-P1" });
+    expect(check.available).toBe(false);
+    expect(check.blockers.map(b => b.cause.type)).toEqual(["teacher"]);
+    expect(check.newConflicts.map(c => [c.type, c.slot, c.resource])).toEqual([["teacher", "Mon-P1", "Ade"]]);
+    // Nothing passed in changes
+    expect(assignments[2].assignedSlot).toBe("Tue-P1");
+  });
+
+  it("swaps two lessons", () => {
+    const check = checkAdjustment(assignments, { action: "swap", lessons: [0, 1] });
+    expect(check.assignments.slice(0, 2).map(a => a.assignedSlot)).toEqual(["Mon-P2", "Mon-P1"]);
+    expect(check.conflicts).toHaveLength(0);
+  });
+
+  it("refuses lessons and slots that do not exist", () => {
+    expect(() => checkAdjustment(assignments, { action: "move", lesson: 9, to: "Mon-P1" })).toThrow(/Lesson 9/);
+    expect(() => checkAdjustment(assignments, { action: "move", lesson: 0, to: "Sun-P1" })).toThrow(/not on the calendar/);
+    expect(() => checkAdjustment(assignments, { action: "swap", lessons: [1, 1] })).toThrow(/itself/);
+  });
+});
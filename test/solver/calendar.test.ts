@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CALENDAR,
+  buildCalendar,
+  calendarSlots,
+  expandSlotPattern,
+  isSchedulableSlot,
+  normalizeDay,
+  normalizePeriod
+} from "../../src/solver/calendar";
+
+describe("buildCalendar", () => {
+  it("defaults to a Mon-Fri week of six periods", () => {
+    expect(DEFAULT_CALENDAR.days.map(d => d.id)).toEqual(["Mon", "Tue", "Wed", "Thu", "Fri"]);
+    expect(DEFAULT_CALENDAR.days.every(d => d.periods.length === 6)).toBe(true);
+  });
+
+  it("builds named days with their own periods", () => {
+    const calendar = buildCalendar({
+      days: ["Monday", { day: "Saturday", periods: 3 }],
+      periodsPerDay: 8
+    });
+    expect(calendar.days.map(d => [d.id, d.periods.length])).toEqual([["Mon", 8], ["Sat", 3]]);
+  });
+
+  it("blocks slots by day, by period or both", () => {
+    const calendar = buildCalendar({ blocked: ["Wed-*", "*-P4", { day: "Mon", period: "P1" }] });
+    expect(isSchedulableSlot("Wed-P2", calendar)).toBe(false);
+    expect(isSchedulableSlot("Fri-P4", calendar)).toBe(false);
+    expect(isSchedulableSlot("Mon-P1", calendar)).toBe(false);
+    expect(isSchedulableSlot("Mon-P2", calendar)).toBe(true);
+    expect(calendarSlots(calendar)).toHaveLength(30);
+  });
+
+  it("rejects repeated days and empty period lists", () => {
+    expect(() => buildCalendar({ days: ["Mon", "monday"] })).toThrow(/listed more than once/);
+    expect(() => buildCalendar({ periods: [] })).toThrow(/at least one period/);
+  });
+});
+
+describe("normalizeDay and normalizePeriod", () => {
+  it("accept the usual spellings", () => {
+    expect(normalizeDay("thursday")).toBe("Thu");
+    expect(normalizeDay("Sun")).toBe("");
+    expect(normalizePeriod("Period 3", "Mon")).toBe("P3");
+    expect(normalizePeriod("4", "Mon")).toBe("P4");
+    expect(normalizePeriod("P7", "Mon")).toBe("");
+  });
+
+  it("match period labels", () => {
+    const calendar = buildCalendar({ periods: ["Registration", "Lecture"] });
+    expect(normalizePeriod("lecture", "Tue", calendar)).toBe("P2");
+  });
+});
+
+describe("expandSlotPattern", () => {
+  it("expands wildcards in calendar order", () => {
+    expect(expandSlotPattern("*-P2")).toEqual(["Mon-P2", "Tue-P2", "Wed-P2", "Thu-P2", "Fri-P2"]);
+    expect(expandSlotPattern("Fri")).toHaveLength(6);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { changeReport, mergeAndResolve } from "../../src/solver/index";
+import { row } from "../rows";
+
+describe("changeReport", () => {
+  it("lists every source with what moved and what it clashed with", () => {
+    const result = mergeAndResolve([
+      row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "A", room: "R1", sourceFile: "maths.csv" }),
+      row({ day: "Mon", period: "P1", subject: "Physics", teacher: "Ade", group: "B", room: "R2", sourceFile: "physics.csv" }),
+      row({ day: "Tue", period: "P1", subject: "Art", teacher: "Bo", group: "C", room: "R3", sourceFile: "art.csv" })
+    ], { filePriority: ["maths.csv", "art.csv", "physics.csv"] });
+
+    const report = changeReport(result);
+    expect(report.map(r => [r.source, r.lessons, r.moved])).toEqual([
+      ["maths.csv", 1, 0],
+      ["physics.csv", 1, 1],
+      ["art.csv", 1, 0]
+    ]);
+    const [change] = report[1].changes;
+    expect(change).toMatchObject({
+      kind: "moved",
+      manual: false,
+      subject: "Physics",
+      from: "Mon-P1",
+      cause: { type: "teacher", resource: "Ade" },
+      clashWith: { source: "maths.csv", subject: "Maths", slot: "Mon-P1" }
+    });
+    expect(change.to).not.toBe("Mon-P1");
+  });
+
+  it("reports room changes and clashes left unresolved", () => {
+    const report = changeReport(mergeAndResolve([
+      row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "A", room: "R1", locked: true }),
+      row({ day: "Mon", period: "P1", subject: "Art", teacher: "Bo", group: "B", room: "R1" }),
+      row({ day: "Mon", period: "P1", subject: "Exam", teacher: "Ade", group: "C", room: "Hall", locked: true })
+    ], { rooms: ["R2"] }));
+    expect(report[0].changes.map(c => [c.subject, c.kind, c.toRoom])).toEqual([
+      ["Art", "room", "R2"],
+      ["Maths", "unresolved", "R1"],
+      ["Exam", "unresolved", "Hall"]
+    ]);
+    expect(report[0]).toMatchObject({ roomChanges: 1, unresolved: 2 });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { checkConstraints, emptyConstraints, unavailableSlots } from "../../src/solver/constraints";
+import { mergeAndResolve } from "../../src/solver/index";
+import { row } from "../rows";
+
+describe("unavailableSlots", () => {
+  it("expands the teacher's slot patterns", () => {
+    const constraints = { ...emptyConstraints(), teacherUnavailable: { Ade: ["Fri-*", "*-P6"] } };
+    const slots = unavailableSlots("Ade", constraints);
+    expect(slots.has("Fri-P1")).toBe(true);
+    expect(slots.has("Mon-P6")).toBe(true);
+    expect(slots.has("Mon-P1")).toBe(false);
+    expect(unavailableSlots("Bo", constraints).size).toBe(0);
+  });
+});
+
+describe("checkConstraints", () => {
+  it("reports rooms too small or without the features a subject needs", () => {
+    const constraints = {
+      ...emptyConstraints(),
+      roomCapacity: { R1: 20 },
+      groupSize: { A: 25 },
+      roomFeatures: { R1: ["projector"] },
+      subjectRequirements: { Chemistry: ["lab"] }
+    };
+    const violations = checkConstraints({ subject: "Chemistry", group: "A", room: "R1" }, "Mon-P1", constraints);
+    expect(violations.map(v => v.type).sort()).toEqual(["capacity", "feature"]);
+  });
+});
+
+describe("mergeAndResolve with constraints", () => {
+  it("moves a lesson out of its teacher's unavailable slots", () => {
+    const constraints = { ...emptyConstraints(), teacherUnavailable: { Ade: ["Mon-P1"] } };
+    const { assignments, conflicts } = mergeAndResolve(
+      [row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "A", room: "R1" })],
+      { constraints }
+    );
+    expect(assignments[0].assignedSlot).not.toBe("Mon-P1");
+    expect(conflicts).toHaveLength(0);
+  });
+});
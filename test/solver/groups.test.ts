@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { expandGroups, splitGroups } from "../../src/solver/groups";
+import { mergeAndResolve } from "../../src/solver/index";
+import { row } from "../rows";
+
+describe("splitGroups", () => {
+  it("splits on commas and semicolons and drops repeats", () => {
+    expect(splitGroups("CS1, CS2;CS1 ,")).toEqual(["CS1", "CS2"]);
+    expect(splitGroups(undefined)).toEqual([]);
+  });
+
+  it("adds every subgroup of a parent group", () => {
+    expect(expandGroups(["CS"], { CS: ["CS1", "CS2"], CS1: ["CS1a"] })).toEqual(["CS", "CS1", "CS1a", "CS2"]);
+  });
+});
+
+describe("group clashes", () => {
+  it("are found per group in a combined lesson", () => {
+    const { conflicts } = mergeAndResolve([
+      row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "CS1, CS2", room: "R1", locked: true }),
+      row({ day: "Mon", period: "P1", subject: "Art", teacher: "Bo", group: "CS2", room: "R2", locked: true })
+    ]);
+    expect(conflicts.map(c => [c.type, c.resource])).toEqual([["group", "CS2"]]);
+  });
+
+  it("cover the subgroups of a whole-cohort lesson", () => {
+    const rows = [
+      row({ day: "Mon", period: "P1", subject: "Lecture", teacher: "Ade", group: "CS", room: "Hall" }),
+      row({ day: "Mon", period: "P1", subject: "Lab", teacher: "Bo", group: "CS1", room: "Lab" })
+    ];
+    expect(mergeAndResolve(rows).moves).toHaveLength(0);
+    const { moves, conflicts } = mergeAndResolve(rows, { groupHierarchy: { CS: ["CS1", "CS2"] } });
+    expect(conflicts).toHaveLength(0);
+    expect(moves).toHaveLength(1);
+    expect(moves[0].cause).toMatchObject({ type: "group", resource: "CS1" });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { emptyConstraints, identityKey, mergeAndResolve } from "../../src/solver/index";
+import { row } from "../rows";
+
+describe("identityKey", () => {
+  it("ignores only case, spaces and punctuation", () => {
+    expect(identityKey("Dr. A. Bello")).toBe(identityKey("dr a bello"));
+    expect(identityKey("LT 1")).toBe(identityKey("lt-1"));
+    expect(identityKey("Computer Lab 1")).not.toBe(identityKey("Chemistry Lab 1"));
+    expect(identityKey("Mr Ade")).not.toBe(identityKey("Mrs Ade"));
+  });
+});
+
+describe("mergeAndResolve identities", () => {
+  it("treats spellings of one name across files as one teacher", () => {
+    const { identities, moves, assignments } = mergeAndResolve([
+      row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Dr. A. Bello", group: "A", room: "R1", sourceFile: "a.csv" }),
+      row({ day: "Mon", period: "P1", subject: "Physics", teacher: "DR A BELLO", group: "B", room: "R2", sourceFile: "b.csv" })
+    ]);
+    expect(identities.merged).toEqual([{ kind: "teacher", name: "Dr. A. Bello", spellings: ["Dr. A. Bello", "DR A BELLO"] }]);
+    expect(moves).toHaveLength(1);
+    // Each upload keeps its own spelling
+    expect(assignments.map(a => a.teacher)).toEqual(["Dr. A. Bello", "DR A BELLO"]);
+  });
+
+  it("keeps rooms with the same initials apart and only suspects them", () => {
+    const { identities, moves, conflicts } = mergeAndResolve([
+      row({ day: "Mon", period: "P1", subject: "Computing", teacher: "Ade", group: "A", room: "Computer Lab 1" }),
+      row({ day: "Mon", period: "P1", subject: "Chemistry", teacher: "Bo", group: "B", room: "Chemistry Lab 1" })
+    ]);
+    expect(identities.merged).toEqual([]);
+    expect(moves).toEqual([]);
+    expect(conflicts).toEqual([]);
+    expect(identities.suspected).toMatchObject([{ kind: "room", names: ["Computer Lab 1", "Chemistry Lab 1"] }]);
+  });
+
+  it("keeps teachers who differ only by title apart", () => {
+    const { identities, moves } = mergeAndResolve([
+      row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Mr Ade", group: "A", room: "R1" }),
+      row({ day: "Mon", period: "P1", subject: "Art", teacher: "Mrs Ade", group: "B", room: "R2" })
+    ]);
+    expect(identities.merged).toEqual([]);
+    expect(moves).toEqual([]);
+    expect(identities.suspected).toMatchObject([{ kind: "teacher", names: ["Mr Ade", "Mrs Ade"] }]);
+  });
+
+  it("treats a teacher written with or without title and initials as one", () => {
+    const { identities, moves, assignments } = mergeAndResolve([
+      row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Dr. A. Bello", group: "A", room: "R1", sourceFile: "a.csv" }),
+      row({ day: "Mon", period: "P1", subject: "Physics", teacher: "Bello A", group: "B", room: "R2", sourceFile: "b.csv" }),
+      row({ day: "Mon", period: "P1", subject: "Chemistry", teacher: "ABELLO", group: "C", room: "R3", sourceFile: "c.csv" })
+    ]);
+    expect(identities.merged).toEqual([
+      { kind: "teacher", name: "Dr. A. Bello", spellings: ["Dr. A. Bello", "Bello A", "ABELLO"] }
+    ]);
+    expect(identities.suspected).toEqual([]);
+    expect(moves.filter(m => m.to)).toHaveLength(2);
+    expect(new Set(assignments.map(a => a.assignedSlot)).size).toBe(3);
+    expect(assignments.map(a => a.teacher)).toEqual(["Dr. A. Bello", "Bello A", "ABELLO"]);
+  });
+
+  it("keeps initials apart when the full names behind them differ", () => {
+    const { identities, moves } = mergeAndResolve([
+      row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade Bello", group: "A", room: "R1" }),
+      row({ day: "Mon", period: "P1", subject: "Art", teacher: "Amaka Bello", group: "B", room: "R2" }),
+      row({ day: "Mon", period: "P1", subject: "Music", teacher: "A. Bello", group: "C", room: "R3" })
+    ]);
+    expect(identities.merged).toEqual([]);
+    expect(moves).toEqual([]);
+    expect(identities.suspected.map(s => s.names)).toContainEqual(["Ade Bello", "Amaka Bello"]);
+  });
+
+  it("matches teachers in a constraints file to a merged name", () => {
+    const { moves } = mergeAndResolve([
+      row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Dr. A. Bello", group: "A", room: "R1" }),
+      row({ day: "Tue", period: "P1", subject: "Physics", teacher: "ABELLO", group: "B", room: "R2" })
+    ], { constraints: { ...emptyConstraints(), teacherUnavailable: { "Bello A": ["Tue-*"] } } });
+    expect(moves).toMatchObject([{ from: "Tue-P1" }]);
+  });
+
+  it("merges names an alias joins, under the alias's name", () => {
+    const rows = [
+      row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Bello", group: "A", room: "R1" }),
+      row({ day: "Mon", period: "P1", subject: "Physics", teacher: "Dr. A. Bello", group: "B", room: "R2" })
+    ];
+    expect(mergeAndResolve(rows).moves).toHaveLength(0);
+    const { identities, moves } = mergeAndResolve(rows, { aliases: { teacher: { Bello: "Dr. A. Bello" } } });
+    expect(moves).toHaveLength(1);
+    expect(identities.merged).toMatchObject([{ kind: "teacher", name: "Dr. A. Bello" }]);
+  });
+
+  it("compares names exactly when normalising is off", () => {
+    const { moves } = mergeAndResolve([
+      row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "A", room: "R1" }),
+      row({ day: "Mon", period: "P1", subject: "Art", teacher: "ADE", group: "B", room: "R2" }),
+      row({ day: "Mon", period: "P1", subject: "Music", teacher: "Mr Ade", group: "C", room: "R3" })
+    ], { normalizeNames: false });
+    expect(moves).toHaveLength(0);
+  });
+});
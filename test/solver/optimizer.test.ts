@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CALENDAR, buildCalendar } from "../../src/solver/calendar";
+import { optimizeSlots } from "../../src/solver/optimizer";
+import { mergeAndResolve } from "../../src/solver/index";
+import { row } from "../rows";
+
+describe("optimizeSlots", () => {
+  it("moves as few lessons as possible to clear every clash", () => {
+    const slots = optimizeSlots([
+      { original: "Mon-P1", resources: ["teacher:Ade"] },
+      { original: "Mon-P1", resources: ["teacher:Ade"] },
+      { original: "Mon-P2", resources: ["teacher:Bo"] }
+    ], DEFAULT_CALENDAR, { seed: 7 });
+    expect(new Set(slots.slice(0, 2)).size).toBe(2);
+    expect(slots.filter((slot, i) => slot !== ["Mon-P1", "Mon-P1", "Mon-P2"][i])).toHaveLength(1);
+    expect(slots[2]).toBe("Mon-P2");
+  });
+
+  it("never moves a fixed lesson", () => {
+    const calendar = buildCalendar({ periodsPerDay: 2, days: ["Mon"] });
+    const slots = optimizeSlots([
+      { original: "Mon-P1", resources: ["room:R1"], fixed: true },
+      { original: "Mon-P1", resources: ["room:R1"] }
+    ], calendar);
+    expect(slots).toEqual(["Mon-P1", "Mon-P2"]);
+  });
+
+  it("gives the same answer for the same seed", () => {
+    const lessons = Array.from({ length: 12 }, (_, i) => ({
+      original: "Mon-P1",
+      resources: [`teacher:T${i % 3}`, `group:G${i % 4}`]
+    }));
+    const first = optimizeSlots(lessons, DEFAULT_CALENDAR, { seed: 3, timeBudgetMs: 60000, maxIterations: 2000 });
+    const second = optimizeSlots(lessons, DEFAULT_CALENDAR, { seed: 3, timeBudgetMs: 60000, maxIterations: 2000 });
+    expect(second).toEqual(first);
+  });
+});
+
+describe("mergeAndResolve strategies", () => {
+  const rows = [
+    row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "A", room: "R1" }),
+    row({ day: "Mon", period: "P1", subject: "Physics", teacher: "Ade", group: "B", room: "R2" }),
+    row({ day: "Mon", period: "P2", subject: "Chemistry", teacher: "Bo", group: "B", room: "R3" })
+  ];
+
+  for (const strategy of ["optimal", "greedy"] as const) {
+    it(`${strategy} leaves no conflicts and reports each move`, () => {
+      const { assignments, conflicts, moves } = mergeAndResolve(rows, { strategy, seed: 1 });
+      expect(conflicts).toHaveLength(0);
+      expect(moves.length).toBeGreaterThan(0);
+      for (const move of moves) expect(move.entry.assignedSlot).toBe(move.to);
+      expect(assignments.map(a => a.assignedSlot)).toContain("Mon-P1");
+    });
+  }
+});
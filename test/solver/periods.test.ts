@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { buildCalendar, parseClock, periodSpan, spanSlots } from "../../src/solver/calendar";
+import { lessonLength, mergeAndResolve } from "../../src/solver/index";
+import { row } from "../rows";
+
+const timed = buildCalendar({ bellSchedule: ["08:00-09:00", "09:00-10:00", "10:30-11:30", "11:30-12:30"], periodsPerDay: 4 });
+
+describe("parseClock", () => {
+  it("reads the usual clock formats", () => {
+    expect(["09:00", "9.30", "0930", "2pm", "12am"].map(parseClock)).toEqual([540, 570, 570, 840, 0]);
+    expect(parseClock("9")).toBeUndefined();
+    expect(parseClock("25:00")).toBeUndefined();
+  });
+});
+
+describe("periodSpan", () => {
+  it("covers period ranges and clock ranges", () => {
+    expect(periodSpan("P2-P3", "Mon")).toEqual(["P2", "P3"]);
+    expect(periodSpan("Period 2-4", "Mon")).toEqual(["P2", "P3", "P4"]);
+    expect(periodSpan("09:00-11:30", "Mon", timed)).toEqual(["P2", "P3"]);
+    expect(periodSpan("10:45", "Mon", timed)).toEqual(["P3"]);
+  });
+
+  it("is empty for backwards or unknown ranges", () => {
+    expect(periodSpan("P3-P2", "Mon")).toEqual([]);
+    expect(periodSpan("11:00-09:00", "Mon", timed)).toEqual([]);
+    expect(periodSpan("P2", "Sun")).toEqual([]);
+  });
+});
+
+describe("spanSlots", () => {
+  it("refuses lessons running past the end of the day", () => {
+    expect(spanSlots("Mon-P3", 2, timed)).toEqual(["Mon-P3", "Mon-P4"]);
+    expect(spanSlots("Mon-P4", 2, timed)).toBeNull();
+  });
+});
+
+describe("multi-period lessons", () => {
+  it("are counted by their periods", () => {
+    expect(lessonLength(row({ day: "Mon", period: "P1-P3" }))).toBe(3);
+    expect(lessonLength(row({ day: "Mon", period: "P1" }))).toBe(1);
+  });
+
+  it("clash over every period they cover and move as one block", () => {
+    const { assignments, conflicts } = mergeAndResolve([
+      row({ day: "Mon", period: "P3", subject: "Maths", teacher: "Ade", group: "A", room: "R1", locked: true }),
+      row({ day: "Mon", period: "P2-P3", subject: "Lab", teacher: "Ade", group: "B", room: "Lab" })
+    ], { calendar: timed });
+    expect(conflicts).toHaveLength(0);
+    const lab = assignments[1];
+    expect(lab.assignedSlots).toHaveLength(2);
+    expect(lab.assignedSlots).not.toContain("Mon-P3");
+    expect(spanSlots(lab.assignedSlot, 2, timed)).toEqual(lab.assignedSlots);
+  });
+});
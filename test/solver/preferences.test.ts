@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CALENDAR } from "../../src/solver/calendar";
+import { assessQuality } from "../../src/solver/preferences";
+import { mergeAndResolve } from "../../src/solver/index";
+import { row } from "../rows";
+
+const lesson = (teacher: string, group: string, subject = "Maths") => ({ teacher, groups: [group], subject, length: 1 });
+
+describe("assessQuality", () => {
+  it("scores 100 when every preference is met", () => {
+    const report = assessQuality([lesson("Ade", "A")], ["Mon-P1"], ["a.csv"], { maxTeacherPeriodsPerDay: 4 }, DEFAULT_CALENDAR);
+    expect(report).toMatchObject({ score: 100, penalty: 0, violations: [] });
+  });
+
+  it("counts periods over each limit against the timetables involved", () => {
+    const lessons = [lesson("Ade", "A"), lesson("Ade", "B", "Art"), lesson("Ade", "A", "Maths")];
+    const report = assessQuality(
+      lessons,
+      ["Mon-P1", "Mon-P2", "Mon-P5"],
+      ["a.csv", "b.csv", "a.csv"],
+      { maxTeacherPeriodsPerDay: 2, maxStudentGap: 1, spreadSubjects: true },
+      DEFAULT_CALENDAR
+    );
+    expect(report.violations.map(v => [v.type, v.resource, v.amount]).sort()).toEqual([
+      ["student-gap", "A", 2],
+      ["subject-spread", "A", 1],
+      ["teacher-load", "Ade", 1]
+    ]);
+    expect(report.score).toBeLessThan(100);
+    expect(report.timetables.find(t => t.source === "b.csv")).toMatchObject({ lessons: 1, penalty: 1 });
+  });
+});
+
+describe("mergeAndResolve with preferences", () => {
+  const rows = [
+    row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "A", room: "R1" }),
+    row({ day: "Mon", period: "P2", subject: "Art", teacher: "Ade", group: "B", room: "R2" }),
+    row({ day: "Mon", period: "P2", subject: "Music", teacher: "Ade", group: "C", room: "R3" })
+  ];
+
+  for (const strategy of ["optimal", "greedy"] as const) {
+    it(`${strategy} moves a clashing lesson to a slot that keeps the teacher's day light`, () => {
+      const { assignments, quality } = mergeAndResolve(rows, { strategy, preferences: { maxTeacherPeriodsPerDay: 2 } });
+      const moved = assignments.find(a => a.assignedSlot !== `${a.day}-${a.period}`)!;
+      expect(moved.assignedSlot.startsWith("Mon-")).toBe(false);
+      expect(quality.score).toBe(100);
+    });
+  }
+
+  it("never moves a lesson only to meet a preference", () => {
+    const { moves, quality } = mergeAndResolve(rows.slice(0, 2), { preferences: { maxTeacherPeriodsPerDay: 1 } });
+    expect(moves).toEqual([]);
+    expect(quality.violations).toMatchObject([{ type: "teacher-load", resource: "Ade", amount: 1 }]);
+  });
+});
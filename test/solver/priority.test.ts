@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { isPinned, priorityRank } from "../../src/solver/priority";
+import { mergeAndResolve } from "../../src/solver/index";
+import { row } from "../rows";
+
+describe("isPinned", () => {
+  it("matches every field a rule gives, ignoring case", () => {
+    const exam = row({ day: "Mon", period: "P1", subject: "Exam", room: "Hall" });
+    expect(isPinned(exam, [{ subject: "exam" }])).toBe(true);
+    expect(isPinned(exam, [{ subject: "exam", room: "R1" }])).toBe(false);
+    expect(isPinned(exam, [{}])).toBe(false);
+    expect(isPinned({ ...exam, locked: true })).toBe(true);
+  });
+});
+
+describe("priorityRank", () => {
+  it("ranks by file or sheet, unlisted files last", () => {
+    const rules = ["main.xlsx (Year 1)", "extra.csv"];
+    expect(priorityRank(row({ day: "Mon", period: "P1", sourceFile: "main.xlsx", sourceSheet: "Year 1" }), rules)).toBe(0);
+    expect(priorityRank(row({ day: "Mon", period: "P1", sourceFile: "extra.csv" }), rules)).toBe(1);
+    expect(priorityRank(row({ day: "Mon", period: "P1", sourceFile: "other.csv" }), rules)).toBe(2);
+  });
+});
+
+describe("mergeAndResolve with pins and priorities", () => {
+  const clash = [
+    row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "A", room: "R1", sourceFile: "a.csv" }),
+    row({ day: "Mon", period: "P1", subject: "Exam", teacher: "Ade", group: "B", room: "R2", sourceFile: "b.csv" })
+  ];
+
+  it("moves the lesson from the lower-priority file", () => {
+    const { moves } = mergeAndResolve(clash, { filePriority: ["b.csv", "a.csv"] });
+    expect(moves.map(m => m.entry.subject)).toEqual(["Maths"]);
+  });
+
+  it("never moves a pinned lesson", () => {
+    const { moves } = mergeAndResolve(clash, { filePriority: ["a.csv"], pinned: [{ subject: "Exam" }] });
+    expect(moves.map(m => m.entry.subject)).toEqual(["Maths"]);
+  });
+
+  it("reports a hard conflict when two locked lessons clash", () => {
+    const { conflicts, moves } = mergeAndResolve(clash.map(r => ({ ...r, locked: true })));
+    expect(conflicts).toMatchObject([{ type: "teacher", resource: "Ade", hard: true }]);
+    expect(moves.every(m => m.to === null)).toBe(true);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from "vitest";
+import { emptyConstraints } from "../../src/solver/constraints";
+import { buildCalendar, changeReport, mergeAndResolve } from "../../src/solver/index";
+import { row } from "../rows";
+
+describe("room clashes", () => {
+  const rows = [
+    row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "A", room: "R1" }),
+    row({ day: "Mon", period: "P1", subject: "Art", teacher: "Bo", group: "B", room: "R1" })
+  ];
+
+  it("are settled by handing out a free room before moving anyone", () => {
+    const { assignments, moves, conflicts } = mergeAndResolve(rows, { rooms: ["R2"] });
+    expect(conflicts).toHaveLength(0);
+    expect(assignments.map(a => a.assignedSlot)).toEqual(["Mon-P1", "Mon-P1"]);
+    expect(assignments[1].assignedRoom).toBe("R2");
+    expect(moves).toMatchObject([{ from: "Mon-P1", to: "Mon-P1", roomChange: { from: "R1", to: "R2" } }]);
+  });
+
+  it("are reported in the result, not on stdout", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    try {
+      mergeAndResolve(rows, { rooms: ["R2"] });
+      expect(log).not.toHaveBeenCalled();
+    } finally {
+      log.mockRestore();
+    }
+  });
+
+  it("move a lesson in time when no suitable room is free", () => {
+    const constraints = { ...emptyConstraints(), roomCapacity: { R2: 10 }, groupSize: { B: 30 } };
+    const { assignments, moves } = mergeAndResolve(rows, { rooms: ["R2"], constraints });
+    expect(assignments[1].assignedRoom).toBeUndefined();
+    expect(moves).toHaveLength(1);
+    expect(moves[0].to).not.toBe("Mon-P1");
+  });
+
+  it("drop a new room the lesson no longer needs once it is moved in time", () => {
+    const constraints = { ...emptyConstraints(), teacherUnavailable: { Bo: ["Mon-P1"] } };
+    const { assignments, moves } = mergeAndResolve(rows, { rooms: ["R2"], constraints });
+    expect(assignments[1]).toMatchObject({ assignedSlot: "Mon-P2", room: "R1" });
+    expect(assignments[1].assignedRoom).toBeUndefined();
+    expect(moves).toHaveLength(1);
+    expect(moves[0].roomChange).toBeUndefined();
+  });
+
+  it("are reported on the time move when the lesson still needs the new room", () => {
+    const busy = [...rows, row({ day: "Mon", period: "P2", subject: "Club", teacher: "Cy", group: "C", room: "R1" })];
+    const constraints = { ...emptyConstraints(), teacherUnavailable: { Bo: ["Mon-P1"] } };
+    const calendar = buildCalendar({ days: ["Mon"], periodsPerDay: 2 });
+    const result = mergeAndResolve(busy, { rooms: ["R2"], constraints, calendar });
+    expect(result.conflicts).toHaveLength(0);
+    expect(result.assignments[1]).toMatchObject({ assignedSlot: "Mon-P2", assignedRoom: "R2" });
+    expect(result.moves).toMatchObject([{ from: "Mon-P1", to: "Mon-P2", roomChange: { from: "R1", to: "R2" } }]);
+    expect(changeReport(result).flatMap(s => s.changes)).toMatchObject([
+      { kind: "moved", from: "Mon-P1", to: "Mon-P2", fromRoom: "R1", toRoom: "R2" }
+    ]);
+  });
+});
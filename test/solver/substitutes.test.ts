@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CALENDAR } from "../../src/solver/calendar";
+import { emptyConstraints } from "../../src/solver/constraints";
+import { mergeAndResolve } from "../../src/solver/index";
+import { findSubstitutes } from "../../src/solver/substitutes";
+import { row } from "../rows";
+
+// Two lessons for Ade at the same time, both pinned so neither can move
+const rows = [
+  row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "A", room: "R1" }),
+  row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "B", room: "R2" }),
+  row({ day: "Mon", period: "P2", subject: "Maths", teacher: "Cy", group: "C", room: "R3" })
+];
+const pinned = [{ teacher: "Ade" }];
+const qualifications = { Bo: ["Maths"], Cy: ["maths"], Di: ["MATHS"], Ed: ["Art"] };
+
+describe("substitutes", () => {
+  it("suggests free qualified teachers, least loaded first, without changing the timetable", () => {
+    const constraints = { ...emptyConstraints(), teacherUnavailable: { Di: ["Mon-P1"] } };
+    const { substitutions, assignments, conflicts } = mergeAndResolve(rows, { pinned, qualifications, constraints });
+    // Nothing is covered, so both of Ade's lessons stay double-booked
+    expect(substitutions.map(s => [s.teacher, s.slot, s.applied])).toEqual([
+      ["Ade", "Mon-P1", undefined],
+      ["Ade", "Mon-P1", undefined]
+    ]);
+    expect(substitutions[0].candidates).toEqual([{ teacher: "Bo", load: 0 }, { teacher: "Cy", load: 1 }]);
+    expect(assignments.every(a => !a.assignedTeacher)).toBe(true);
+    expect(conflicts).not.toHaveLength(0);
+  });
+
+  it("leaves out teachers already teaching at that time", () => {
+    const busy = [...rows, row({ day: "Mon", period: "P1", subject: "Art", teacher: "Bo", group: "D", room: "R4" })];
+    const { substitutions } = mergeAndResolve(busy, { pinned, qualifications });
+    expect(substitutions[0].candidates.map(c => c.teacher)).toEqual(["Di", "Cy"]);
+  });
+
+  it("hands the lesson to the best candidate when applied", () => {
+    const { substitutions, assignments, moves, conflicts } = mergeAndResolve(rows, {
+      pinned,
+      qualifications,
+      substitutes: "apply"
+    });
+    expect(substitutions).toMatchObject([{ teacher: "Ade", applied: "Bo" }]);
+    expect(assignments.filter(a => a.assignedTeacher === "Bo")).toHaveLength(1);
+    expect(moves).toHaveLength(1);
+    expect(moves[0]).toMatchObject({ from: "Mon-P1", to: "Mon-P1", teacherChange: { from: "Ade", to: "Bo" } });
+    expect(moves[0].reason).toMatch(/^Teacher changed from Ade to Bo: /);
+    expect(conflicts).toEqual([]);
+  });
+
+  it("records the change in new moves, leaving the ones passed in as they were", () => {
+    const { assignments, moves } = mergeAndResolve(rows, { pinned });
+    const before = moves.map(m => ({ ...m }));
+    const result = findSubstitutes(
+      assignments,
+      moves,
+      qualifications,
+      assignments.map((_, i) => i),
+      emptyConstraints(),
+      DEFAULT_CALENDAR,
+      true
+    );
+    expect(result.substitutions.map(s => s.applied)).toEqual(["Bo"]);
+    expect(result.moves[0]).not.toBe(moves[0]);
+    expect(result.moves[0].to).toBe("Mon-P1");
+    expect(moves).toEqual(before);
+    expect(moves[0].to).toBeNull();
+    expect(assignments.every(a => !a.assignedTeacher)).toBe(true);
+  });
+});
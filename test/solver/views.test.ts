@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { mergeAndResolve, partitionAssignments } from "../../src/solver/index";
+import { row } from "../rows";
+
+describe("partitionAssignments", () => {
+  const { assignments } = mergeAndResolve([
+    row({ day: "Mon", period: "P1", subject: "Lecture", teacher: "Ade", group: "CS", room: "Hall" }),
+    row({ day: "Mon", period: "P2", subject: "Lab", teacher: "Bo", group: "CS1, CS2", room: "Lab" }),
+    row({ day: "Tue", period: "P1", subject: "Tutorial", teacher: "Ade", group: "CS2", room: "R1" })
+  ]);
+
+  it("gives each teacher and room their own timetable, sorted by name", () => {
+    const teachers = partitionAssignments(assignments, "teacher");
+    expect([...teachers.keys()]).toEqual(["Ade", "Bo"]);
+    expect(teachers.get("Ade")!.map(a => a.subject)).toEqual(["Lecture", "Tutorial"]);
+    expect([...partitionAssignments(assignments, "room").keys()]).toEqual(["Hall", "Lab", "R1"]);
+  });
+
+  it("lists parent-group lessons under every subgroup", () => {
+    const groups = partitionAssignments(assignments, "group", { CS: ["CS1", "CS2"] });
+    expect(groups.get("CS1")!.map(a => a.subject)).toEqual(["Lecture", "Lab"]);
+    expect(groups.get("CS2")!.map(a => a.subject)).toEqual(["Lecture", "Lab", "Tutorial"]);
+  });
+});
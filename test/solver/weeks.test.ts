@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { lessonWeeks, parseLessonDate, parseWeekPattern, weekLabel, weeksOverlap, weeksRejection } from "../../src/solver/weeks";
+import { mergeAndResolve } from "../../src/solver/index";
+import { row } from "../rows";
+
+describe("parseWeekPattern", () => {
+  it("reads A/B weeks, lists and ranges", () => {
+    expect([...parseWeekPattern("Week A")!].slice(0, 3)).toEqual([1, 3, 5]);
+    expect([...parseWeekPattern("even")!].slice(0, 3)).toEqual([2, 4, 6]);
+    expect([...parseWeekPattern("Weeks 1, 3, 5-7")!]).toEqual([1, 3, 5, 6, 7]);
+    expect(parseWeekPattern("all")).toBeNull();
+    expect(parseWeekPattern("")).toBeNull();
+  });
+
+  it("refuses what is not a pattern", () => {
+    expect(parseWeekPattern("fortnightly")).toBeUndefined();
+    expect(parseWeekPattern("6-2")).toBeUndefined();
+    expect(parseWeekPattern("54")).toBeUndefined();
+  });
+});
+
+describe("parseLessonDate", () => {
+  it("reads ISO and day-first dates, refusing impossible ones", () => {
+    expect(parseLessonDate("2026-1-5")).toBe("2026-01-05");
+    expect(parseLessonDate("05/01/2026")).toBe("2026-01-05");
+    expect(parseLessonDate("31/02/2026")).toBeUndefined();
+    expect(parseLessonDate("Jan 5")).toBeUndefined();
+  });
+});
+
+describe("weeksOverlap", () => {
+  const weeks = (fields: { weeks?: string; startDate?: string; endDate?: string }) => lessonWeeks(fields);
+
+  it("keeps week A and week B apart", () => {
+    expect(weeksOverlap(weeks({ weeks: "A" }), weeks({ weeks: "B" }))).toBe(false);
+    expect(weeksOverlap(weeks({ weeks: "A" }), weeks({ weeks: "1-2" }))).toBe(true);
+    expect(weeksOverlap(weeks({ weeks: "A" }), weeks({}))).toBe(true);
+  });
+
+  it("keeps lessons in separate date ranges apart", () => {
+    const autumn = weeks({ startDate: "2026-09-01", endDate: "2026-12-18" });
+    const spring = weeks({ startDate: "2027-01-05" });
+    expect(weeksOverlap(autumn, spring)).toBe(false);
+    expect(weeksOverlap(autumn, weeks({ endDate: "2026-09-30" }))).toBe(true);
+  });
+});
+
+describe("weeksRejection and weekLabel", () => {
+  it("explain unusable weeks and label usable ones", () => {
+    expect(weeksRejection(row({ day: "Mon", period: "P1", weeks: "sometimes" }))).toMatch(/week pattern/);
+    expect(weeksRejection(row({ day: "Mon", period: "P1", startDate: "2026-05-01", endDate: "2026-04-01" }))).toMatch(/after/);
+    expect(weekLabel({ weeks: "B" })).toBe("Week B");
+    expect(weekLabel({ weeks: "1-6", startDate: "2026-01-05" })).toBe("Weeks 1-6, from 2026-01-05");
+    expect(weekLabel({})).toBe("");
+  });
+});
+
+describe("mergeAndResolve with weeks", () => {
+  it("lets lessons in different weeks share a period", () => {
+    const { moves, conflicts } = mergeAndResolve([
+      row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "A", room: "R1", weeks: "A" }),
+      row({ day: "Mon", period: "P1", subject: "Physics", teacher: "Ade", group: "A", room: "R1", weeks: "B" })
+    ]);
+    expect(moves).toEqual([]);
+    expect(conflicts).toEqual([]);
+  });
+
+  it("still separates lessons whose weeks overlap", () => {
+    const { moves, conflicts } = mergeAndResolve([
+      row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", group: "A", room: "R1", weeks: "1-4" }),
+      row({ day: "Mon", period: "P1", subject: "Physics", teacher: "Ade", group: "B", room: "R2", weeks: "4-8" })
+    ]);
+    expect(moves).toHaveLength(1);
+    expect(conflicts).toEqual([]);
+  });
+
+  it("rejects rows with weeks it cannot read", () => {
+    const { rejected } = mergeAndResolve([
+      row({ day: "Mon", period: "P1", subject: "Maths", teacher: "Ade", weeks: "sometimes" })
+    ]);
+    expect(rejected).toMatchObject([{ reason: 'Unrecognised week pattern "sometimes"' }]);
+  });
+});
@@ -0,0 +1,72 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  addVersion,
+  createProject,
+  listProjects,
+  loadProject,
+  putSource,
+  sourceFiles,
+  versionResult
+} from "../../src/storage/projects";
+import { removeUploads, upload } from "../uploads";
+
+const summary = { assignments: 1, moves: 0, conflicts: 0, rejected: 0 };
+let dataDir: string;
+
+beforeAll(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "unisync-data-"));
+  process.env.UNISYNC_DATA_DIR = dataDir;
+});
+
+afterAll(() => {
+  delete process.env.UNISYNC_DATA_DIR;
+  fs.rmSync(dataDir, { recursive: true, force: true });
+  removeUploads();
+});
+
+describe("project sources", () => {
+  it("keep any upload name, however odd, as a plain file", () => {
+    const project = createProject("Odd names", {});
+    for (const name of ["..", ".", "a/b.csv", "x".repeat(300)]) putSource(project, upload(name, name));
+    const files = sourceFiles(project);
+    expect(files.map(f => f.originalname)).toEqual(["..", ".", "a/b.csv", "x".repeat(300)]);
+    for (const file of files) {
+      expect(path.dirname(file.path)).toBe(path.join(dataDir, "projects", project.id, "sources"));
+      expect(fs.readFileSync(file.path, "utf8")).toBe(file.originalname);
+    }
+  });
+
+  it("replace a source of the same name and count its revisions", () => {
+    const project = createProject("Revisions", {});
+    putSource(project, upload("a.csv", "first"), "a.csv");
+    const source = putSource(project, upload("a.csv", "second"), "a.csv");
+    expect(project.sources).toHaveLength(1);
+    expect(source.revision).toBe(2);
+    expect(fs.readFileSync(sourceFiles(project)[0].path, "utf8")).toBe("second");
+  });
+});
+
+describe("addVersion", () => {
+  it("gives runs started from the same saved project their own version numbers", () => {
+    const { id } = createProject("Concurrent", {});
+    const first = loadProject(id);
+    const second = loadProject(id);
+    expect(addVersion(first, "upload", summary, { run: 1 }, Buffer.from("zip")).version).toBe(1);
+    expect(addVersion(second, "upload", summary, { run: 2 }, Buffer.from("zip")).version).toBe(2);
+
+    const saved = loadProject(id);
+    expect(saved.versions.map(v => v.version)).toEqual([1, 2]);
+    expect(versionResult(saved, 1)).toEqual({ run: 1 });
+    expect(versionResult(saved, 2)).toEqual({ run: 2 });
+    expect(listProjects().find(p => p.id === id)?.latestVersion).toBe(2);
+  });
+
+  it("refuses versions the project does not have", () => {
+    const project = createProject("Missing", {});
+    expect(() => versionResult(project, 4)).toThrow(/has no version 4/);
+    expect(() => loadProject("not-an-id")).toThrow(/not found/);
+  });
+});
@@ -0,0 +1,26 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "unisync-test-"));
+let count = 0;
+
+// A file as multer hands it to the routes, written to a temporary folder
+export function upload(originalname: string, content: string | Buffer): Express.Multer.File {
+  const file = path.join(dir, String(++count));
+  fs.writeFileSync(file, content);
+  return {
+    fieldname: "files",
+    originalname,
+    encoding: "7bit",
+    mimetype: "application/octet-stream",
+    size: fs.statSync(file).size,
+    destination: dir,
+    filename: path.basename(file),
+    path: file
+  } as Express.Multer.File;
+}
+
+export function removeUploads() {
+  fs.rmSync(dir, { recursive: true, force: true });
+}
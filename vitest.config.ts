@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"]
+  },
+  resolve: {
+    alias: [
+      // pdf-parse's entry point runs its own debug script when it is not
+      // loaded through require(); the library itself lives in lib/
+      { find: /^pdf-parse$/, replacement: "pdf-parse/lib/pdf-parse.js" }
+    ]
+  }
+});